@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { MatrixHeatmap } from '@/components/MatrixHeatmap';
+import { type TapeAttention } from '@/types/llm';
+
+interface AttentionHeatmapProps {
+  attention: TapeAttention;
+  className?: string;
+}
+
+const MEAN_HEAD = -1;
+
+export const AttentionHeatmap: React.FC<AttentionHeatmapProps> = ({ attention, className = '' }) => {
+  const [layerIndex, setLayerIndex] = useState(attention.layers.length - 1);
+  const [head, setHead] = useState(MEAN_HEAD);
+  const [selected, setSelected] = useState<[number, number] | null>(null);
+
+  const layer = attention.layers[Math.min(layerIndex, attention.layers.length - 1)];
+  const matrix = head === MEAN_HEAD ? layer.mean : layer.heads[head] ?? layer.mean;
+  const max = useMemo(() => Math.max(...matrix.flat(), Number.EPSILON), [matrix]);
+
+  const labels = attention.emojis.map(g => g.emoji);
+  // Rows and columns that open a new tape segment get a divider
+  const boundaries = attention.emojis
+    .map((g, index) => (index > 0 && g.segmentIndex !== attention.emojis[index - 1].segmentIndex ? index : -1))
+    .filter(index => index > 0);
+
+  const query = selected ? attention.emojis[selected[0]] : null;
+  const key = selected ? attention.emojis[selected[1]] : null;
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-muted-foreground">Layer</span>
+        {attention.layers.map((entry, index) => (
+          <button
+            key={entry.layerIndex}
+            onClick={() => setLayerIndex(index)}
+            className={`px-2 py-0.5 rounded-md border text-xs font-mono transition-all duration-200 ${
+              index === layerIndex
+                ? 'border-primary bg-primary/10'
+                : 'border-border hover:border-primary/50 hover:bg-muted/20'
+            }`}
+          >
+            {entry.layerIndex}
+          </button>
+        ))}
+        <Badge
+          variant="outline"
+          className="ml-auto font-mono"
+          title="Share of emoji-to-emoji attention (all heads) that crosses a segment boundary"
+        >
+          Cross-segment {(layer.crossSegmentShare * 100).toFixed(1)}%
+        </Badge>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-muted-foreground">Head</span>
+        {[MEAN_HEAD, ...layer.heads.map((_, index) => index)].map(option => (
+          <button
+            key={option}
+            onClick={() => setHead(option)}
+            className={`px-2 py-0.5 rounded-md border text-xs font-mono transition-all duration-200 ${
+              option === head
+                ? 'border-primary bg-primary/10'
+                : 'border-border hover:border-primary/50 hover:bg-muted/20'
+            }`}
+          >
+            {option === MEAN_HEAD ? 'mean' : option + 1}
+          </button>
+        ))}
+      </div>
+
+      <MatrixHeatmap
+        matrix={matrix}
+        rowLabels={labels}
+        min={0}
+        max={max}
+        boundaries={boundaries}
+        selected={selected}
+        onCellClick={(row, column) => setSelected([row, column])}
+      />
+
+      <div className="p-3 rounded-lg bg-muted/30 text-sm">
+        {query && key ? (
+          <div className="flex items-center gap-3">
+            <span className="text-2xl">{query.emoji}</span>
+            <span className="text-muted-foreground">→</span>
+            <span className="text-2xl">{key.emoji}</span>
+            <span className="font-mono text-primary">{matrix[selected[0]][selected[1]].toFixed(4)}</span>
+            <span className="text-muted-foreground">
+              Segment {query.segmentIndex + 1} attending to segment {key.segmentIndex + 1}
+            </span>
+          </div>
+        ) : (
+          <div className="text-muted-foreground">
+            Rows attend to columns: each row sums a query emoji's attention over the key emoji's tokens. Click a cell for details.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Scatter, ScatterChart, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import { INTRINSIC_PRIMES, type EmojiPrimeMapping, type LLMSamplingResult } from '@/types/llm';
+import { primeColor } from '@/utils/prime-alphabet';
+import { pca } from '@/utils/pca';
+import { normalize } from '@/utils/vector-math';
+
+interface EmbeddingProjectionProps {
+  results: LLMSamplingResult[];
+  className?: string;
+}
+
+interface ProjectedPoint {
+  x: number;
+  y: number;
+  emoji: string;
+  label: string;
+}
+
+/**
+ * One series per prime in the alphabet, plus emojis outside it and the pooled tapes
+ */
+const buildChartConfig = (alphabet: EmojiPrimeMapping[]): ChartConfig => ({
+  ...Object.fromEntries(
+    alphabet.map(p => [`prime-${p.prime}`, { label: `${p.emoji} ${p.meaning}`, color: primeColor(p.prime) }])
+  ),
+  unmapped: { label: 'Outside the alphabet', color: 'hsl(var(--muted-foreground))' },
+  tape: { label: '∑ Pooled tape', color: 'hsl(var(--primary))' }
+});
+
+/**
+ * Render a scatter point as its emoji so the plot reads like the tape
+ */
+const EmojiPoint = (props: { cx?: number; cy?: number; fill?: string; payload?: ProjectedPoint }) => {
+  const { cx = 0, cy = 0, fill, payload } = props;
+  return (
+    <g>
+      <circle cx={cx} cy={cy} r={14} fill={fill} fillOpacity={0.25} stroke={fill} />
+      <text x={cx} y={cy} textAnchor="middle" dominantBaseline="central" fontSize={16}>
+        {payload?.emoji}
+      </text>
+    </g>
+  );
+};
+
+export const EmbeddingProjection: React.FC<EmbeddingProjectionProps> = ({ results, className = '' }) => {
+  const models = useMemo(() => Array.from(new Set(results.map(r => r.tokenization.model))), [results]);
+  const [selectedModel, setSelectedModel] = useState<string>('');
+  const activeModel = models.includes(selectedModel) ? selectedModel : models[0];
+
+  // Hidden sizes differ between models, so each model gets its own projection
+  const projection = useMemo(() => {
+    const modelResults = results.filter(r => r.tokenization.model === activeModel);
+    if (modelResults.length === 0) return null;
+
+    const emojiVectors = modelResults.flatMap(result =>
+      result.emojiEmbeddings.map(emoji => ({ ...emoji, alphabet: result.alphabet, timestamp: result.timestamp }))
+    );
+    // Unit length throughout; results stored before emoji vectors were normalized carry raw means
+    const vectors = [
+      ...emojiVectors.map(emoji => normalize(emoji.embedding)),
+      ...modelResults.map(result => result.embeddings.pooledEmbedding)
+    ];
+    if (vectors.length < 2) return null;
+
+    const { projections, explainedVariance } = pca(vectors, 2);
+    const series: Record<string, ProjectedPoint[]> = {};
+    const addPoint = (key: string, point: ProjectedPoint) => {
+      (series[key] ??= []).push(point);
+    };
+
+    emojiVectors.forEach((emoji, index) => {
+      const [x, y = 0] = projections[index];
+      const entry = emoji.alphabet.find(p => p.emoji === emoji.emoji);
+      addPoint(entry ? `prime-${entry.prime}` : 'unmapped', {
+        x,
+        y,
+        emoji: emoji.emoji,
+        label: `${emoji.emoji} at ${emoji.offset}${entry ? ` (prime ${entry.prime})` : ''}, sampled ${new Date(emoji.timestamp).toLocaleTimeString()}`
+      });
+    });
+    modelResults.forEach((result, index) => {
+      const [x, y = 0] = projections[emojiVectors.length + index];
+      addPoint('tape', {
+        x,
+        y,
+        emoji: '∑',
+        label: `Pooled tape sampled ${new Date(result.timestamp).toLocaleTimeString()}`
+      });
+    });
+
+    return { series, explainedVariance, chartConfig: buildChartConfig(modelResults[0].alphabet ?? INTRINSIC_PRIMES) };
+  }, [results, activeModel]);
+
+  if (!projection) {
+    return null;
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        {models.map(model => (
+          <button
+            key={model}
+            onClick={() => setSelectedModel(model)}
+            className={`px-3 py-1 rounded-md border text-xs transition-all duration-200 ${
+              model === activeModel
+                ? 'border-primary bg-primary/10'
+                : 'border-border hover:border-primary/50 hover:bg-muted/20'
+            }`}
+          >
+            {model.split('/')[1] ?? model}
+          </button>
+        ))}
+        <Badge variant="outline" className="ml-auto">
+          PC1 {(projection.explainedVariance[0] * 100).toFixed(1)}% · PC2 {((projection.explainedVariance[1] ?? 0) * 100).toFixed(1)}%
+        </Badge>
+      </div>
+
+      <ChartContainer config={projection.chartConfig} className="aspect-square max-h-[420px] w-full">
+        <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+          <CartesianGrid />
+          <XAxis type="number" dataKey="x" name="PC1" tickFormatter={(value: number) => value.toFixed(2)} />
+          <YAxis type="number" dataKey="y" name="PC2" tickFormatter={(value: number) => value.toFixed(2)} />
+          <ChartTooltip
+            cursor={false}
+            content={({ active, payload }) => {
+              const point = payload?.[0]?.payload as ProjectedPoint | undefined;
+              if (!active || !point) return null;
+              return (
+                <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                  <div className="font-medium">{point.label}</div>
+                  <div className="font-mono text-muted-foreground">
+                    ({point.x.toFixed(3)}, {point.y.toFixed(3)})
+                  </div>
+                </div>
+              );
+            }}
+          />
+          {Object.entries(projection.series).map(([key, points]) => (
+            <Scatter key={key} name={key} data={points} fill={`var(--color-${key})`} shape={<EmojiPoint />} />
+          ))}
+        </ScatterChart>
+      </ChartContainer>
+    </div>
+  );
+};
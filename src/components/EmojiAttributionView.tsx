@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { EmojiTapeDisplay } from '@/components/EmojiTapeDisplay';
+import { INTRINSIC_PRIMES, type LLMSamplingResult } from '@/types/llm';
+
+interface EmojiAttributionViewProps {
+  result: LLMSamplingResult;
+  className?: string;
+}
+
+export const EmojiAttributionView: React.FC<EmojiAttributionViewProps> = ({ result, className = '' }) => {
+  const [selectedPrime, setSelectedPrime] = useState(2);
+
+  const activation = result.primeMapping.find(m => m.prime === selectedPrime)?.activation ?? 0;
+  const attributed = result.emojiAttribution.reduce(
+    (sum, entry) => sum + (entry.contributions[selectedPrime] ?? 0),
+    0
+  );
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        {(result.alphabet ?? INTRINSIC_PRIMES).map(primeInfo => (
+          <button
+            key={primeInfo.prime}
+            onClick={() => setSelectedPrime(primeInfo.prime)}
+            title={`${primeInfo.meaning} (Prime: ${primeInfo.prime})`}
+            className={`px-2 py-1 rounded-md border text-lg transition-all duration-200 ${
+              primeInfo.prime === selectedPrime
+                ? 'border-primary bg-primary/10'
+                : 'border-border hover:border-primary/50 hover:bg-muted/20'
+            }`}
+          >
+            {primeInfo.emoji}
+          </button>
+        ))}
+        <Badge variant="outline" className="ml-auto font-mono" title="Cosine of the pooled tape embedding to this prime's anchor">
+          Activation {activation.toFixed(4)}
+        </Badge>
+        <Badge variant="outline" className="font-mono" title="Share from special and separator tokens">
+          Unattributed {(activation - attributed).toFixed(4)}
+        </Badge>
+      </div>
+
+      <EmojiTapeDisplay
+        tape={result.tape}
+        alphabet={result.alphabet}
+        showPrimeMapping={false}
+        attribution={result.emojiAttribution}
+        attributionPrime={selectedPrime}
+      />
+    </div>
+  );
+};
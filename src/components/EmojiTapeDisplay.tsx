@@ -1,47 +1,82 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { INTRINSIC_PRIMES, EMOJI_BLOCK_TAPE } from '@/types/llm';
+import {
+  EMOJI_BLOCK_TAPE,
+  type EmojiAttribution,
+  type EmojiPrimeMapping,
+  type GodelSchemeName,
+  type PrimeMappedEmbedding,
+  type TapeGrapheme
+} from '@/types/llm';
+import { parseTape } from '@/utils/tape-parser';
+import { DEFAULT_GODEL_SCHEME, GODEL_SCHEMES, formatGodelEstimate } from '@/utils/godel';
+import { primeColor } from '@/utils/prime-alphabet';
+import { usePrimeAlphabet } from '@/hooks/use-prime-alphabet';
 
 interface EmojiTapeDisplayProps {
   tape?: string;
+  alphabet?: EmojiPrimeMapping[]; // Defaults to the active alphabet
   showPrimeMapping?: boolean;
-  highlight?: string[];
+  godelScheme?: GodelSchemeName;
+  primeMappings?: PrimeMappedEmbedding[];
+  highlight?: (string | number)[]; // Emojis, or tape offsets of single graphemes
+  attribution?: EmojiAttribution[];
+  attributionPrime?: number; // Tint each emoji by its contribution to this prime
+  breakpoints?: number[]; // Tape offsets
+  onEmojiClick?: (grapheme: TapeGrapheme) => void;
   className?: string;
 }
 
 export const EmojiTapeDisplay: React.FC<EmojiTapeDisplayProps> = ({
   tape = EMOJI_BLOCK_TAPE,
+  alphabet,
   showPrimeMapping = true,
+  godelScheme = DEFAULT_GODEL_SCHEME,
+  primeMappings,
   highlight = [],
+  attribution,
+  attributionPrime,
+  breakpoints = [],
+  onEmojiClick,
   className = ''
 }) => {
+  const { alphabet: activeAlphabet } = usePrimeAlphabet();
+  const primes = alphabet ?? activeAlphabet.primes;
+
   const getPrimeForEmoji = (emoji: string) => {
-    return INTRINSIC_PRIMES.find(p => p.emoji === emoji);
+    return primes.find(p => p.emoji === emoji);
   };
 
-  const getEmojiColor = (emoji: string) => {
+  // Every prime has a --prime-N color; custom ones are defined when their alphabet loads
+  const getEmojiColor = (emoji: string): React.CSSProperties | undefined => {
     const primeInfo = getPrimeForEmoji(emoji);
-    if (!primeInfo) return 'text-muted-foreground';
-    
-    // Map to Tailwind color classes based on prime
-    const colorMap: Record<number, string> = {
-      2: 'text-prime-2',   // 🎩 Creativity
-      3: 'text-prime-3',   // 🎲 Chaos  
-      5: 'text-prime-5',   // 🔢 Structure
-      7: 'text-prime-7',   // 🎶 Harmony
-      11: 'text-prime-11', // 🎷 Expression
-      13: 'text-prime-13', // 📜 Legacy
-      17: 'text-prime-17', // 🧬 Evolution
-      19: 'text-prime-19', // 🎯 Focus
-      23: 'text-prime-23', // 🚀 Launch
-      29: 'text-prime-29'  // 🪐 System
-    };
-    
-    return colorMap[primeInfo.prime] || 'text-foreground';
+    return primeInfo ? { color: primeColor(primeInfo.prime) } : undefined;
+  };
+
+  const contributionAt = new Map(
+    attributionPrime === undefined
+      ? []
+      : (attribution ?? []).map(entry => [entry.offset, entry.contributions[attributionPrime] ?? 0])
+  );
+  const maxContribution = Math.max(...Array.from(contributionAt.values(), Math.abs), Number.EPSILON);
+
+  // Positive shares take the prime's color, negative ones the destructive color
+  const getAttributionStyle = (offset: number): React.CSSProperties | undefined => {
+    const contribution = contributionAt.get(offset);
+    if (contribution === undefined) return undefined;
+    const color = contribution >= 0 ? `var(--prime-${attributionPrime})` : 'var(--destructive)';
+    return { backgroundColor: `hsl(${color} / ${(Math.abs(contribution) / maxContribution) * 0.6})` };
   };
 
-  const segments = tape.split('|');
+  const segments = parseTape(tape);
+  const graphemes = segments.flatMap(segment => segment.graphemes);
+  const scheme = GODEL_SCHEMES[godelScheme];
+  const godelNumber = scheme.encode(tape, primeMappings, primes);
+  const positionalNumber = GODEL_SCHEMES.positional.encode(tape, undefined, primes);
+  // Without a sample's activations every exponent is 1
+  const schemeNote = !primeMappings && godelScheme === 'activation-weighted' ? ' (no sample yet, exponents 1)' : '';
+  const primeProduct = GODEL_SCHEMES.plain.encode(tape, undefined, primes);
 
   return (
     <Card className={`bg-card/50 backdrop-blur-sm border-primary/20 ${className}`}>
@@ -49,38 +84,56 @@ export const EmojiTapeDisplay: React.FC<EmojiTapeDisplayProps> = ({
         <CardTitle className="flex items-center gap-2 text-primary">
           <span className="text-2xl">🪐</span>
           Emoji Block Tape
-          <Badge variant="outline" className="ml-auto">
-            Gödel: {calculateGodelNumber(tape).toString()}
+          <Badge variant="outline" className="ml-auto" title={`${scheme.label}${schemeNote}: ${godelNumber.toString()}`}>
+            Gödel ({scheme.label}): {formatGodelEstimate(godelScheme, tape, primeMappings, primes)}
           </Badge>
+          {godelScheme !== 'positional' && (
+            <Badge
+              variant="outline"
+              title={`${GODEL_SCHEMES.positional.label}, the same for every model: ${positionalNumber.toString()}`}
+            >
+              {GODEL_SCHEMES.positional.label}: {formatGodelEstimate('positional', tape, undefined, primes)}
+            </Badge>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Tape Display */}
         <div className="space-y-3">
-          {segments.map((segment, segmentIndex) => (
-            <div key={segmentIndex} className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-muted/30">
+          {segments.map((segment) => (
+            <div key={segment.index} className="flex flex-wrap items-center gap-2 p-3 rounded-lg bg-muted/30">
               <Badge variant="secondary" className="text-xs">
-                Segment {segmentIndex + 1}
+                Segment {segment.index + 1}
               </Badge>
-              {Array.from(segment).map((emoji, emojiIndex) => {
-                const isHighlighted = highlight.includes(emoji);
+              {segment.graphemes.map((grapheme) => {
+                const { emoji, offset } = grapheme;
+                const isHighlighted = highlight.includes(emoji) || highlight.includes(offset);
+                const hasBreakpoint = breakpoints.includes(offset);
                 const primeInfo = getPrimeForEmoji(emoji);
+                const contribution = contributionAt.get(offset);
                 
                 return (
                   <div
-                    key={emojiIndex}
-                    className={`relative group transition-all duration-300 ${
+                    key={offset}
+                    className={`relative group rounded-md transition-all duration-300 ${
                       isHighlighted ? 'scale-125 drop-shadow-glow-prime' : 'hover:scale-110'
                     }`}
+                    style={getAttributionStyle(offset)}
                   >
                     <span 
-                      className={`text-3xl cursor-pointer ${getEmojiColor(emoji)} ${
+                      className={`text-3xl cursor-pointer ${primeInfo ? '' : 'text-muted-foreground'} ${
                         isHighlighted ? 'animate-pulse' : ''
                       }`}
+                      style={getEmojiColor(emoji)}
                       title={primeInfo ? `${primeInfo.meaning} (Prime: ${primeInfo.prime})` : 'Unknown emoji'}
+                      onClick={onEmojiClick ? () => onEmojiClick(grapheme) : undefined}
                     >
                       {emoji}
                     </span>
+
+                    {hasBreakpoint && (
+                      <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-destructive" />
+                    )}
                     
                     {/* Tooltip on hover */}
                     {primeInfo && (
@@ -90,6 +143,11 @@ export const EmojiTapeDisplay: React.FC<EmojiTapeDisplayProps> = ({
                                     whitespace-nowrap z-10">
                         <div className="font-medium">{primeInfo.meaning}</div>
                         <div className="text-muted-foreground">Prime: {primeInfo.prime}</div>
+                        {contribution !== undefined && (
+                          <div className="font-mono">
+                            → {attributionPrime}: {contribution >= 0 ? '+' : ''}{contribution.toFixed(4)}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -102,15 +160,15 @@ export const EmojiTapeDisplay: React.FC<EmojiTapeDisplayProps> = ({
         {/* Prime Mapping Table */}
         {showPrimeMapping && (
           <div className="mt-6">
-            <h4 className="text-lg font-semibold mb-3 text-primary">Intrinsic Prime Mappings</h4>
+            <h4 className="text-lg font-semibold mb-3 text-primary">Prime Mappings</h4>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-              {INTRINSIC_PRIMES.map((primeInfo) => (
+              {primes.map((primeInfo) => (
                 <div 
                   key={primeInfo.prime}
                   className="flex items-center gap-3 p-3 rounded-lg bg-muted/20 hover:bg-muted/40 
                            transition-colors duration-200 border border-border/50"
                 >
-                  <span className={`text-2xl ${getEmojiColor(primeInfo.emoji)}`}>
+                  <span className="text-2xl" style={getEmojiColor(primeInfo.emoji)}>
                     {primeInfo.emoji}
                   </span>
                   <div className="flex-1">
@@ -121,8 +179,8 @@ export const EmojiTapeDisplay: React.FC<EmojiTapeDisplayProps> = ({
                     variant="outline" 
                     className="text-xs"
                     style={{
-                      borderColor: `hsl(var(--prime-${primeInfo.prime}))`,
-                      color: `hsl(var(--prime-${primeInfo.prime}))`
+                      borderColor: primeColor(primeInfo.prime),
+                      color: primeColor(primeInfo.prime)
                     }}
                   >
                     {primeInfo.prime}
@@ -139,7 +197,7 @@ export const EmojiTapeDisplay: React.FC<EmojiTapeDisplayProps> = ({
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
             <div>
               <span className="text-muted-foreground">Total Length:</span>
-              <div className="font-mono text-primary">{tape.replace(/\|/g, '').length}</div>
+              <div className="font-mono text-primary">{graphemes.length}</div>
             </div>
             <div>
               <span className="text-muted-foreground">Segments:</span>
@@ -147,11 +205,13 @@ export const EmojiTapeDisplay: React.FC<EmojiTapeDisplayProps> = ({
             </div>
             <div>
               <span className="text-muted-foreground">Unique Emojis:</span>
-              <div className="font-mono text-primary">{new Set(Array.from(tape.replace(/\|/g, ''))).size}</div>
+              <div className="font-mono text-primary">{new Set(graphemes.map(g => g.emoji)).size}</div>
             </div>
             <div>
               <span className="text-muted-foreground">Prime Product:</span>
-              <div className="font-mono text-primary text-xs">2.94×10¹²</div>
+              <div className="font-mono text-primary text-xs" title={primeProduct.toString()}>
+                {formatGodelEstimate('plain', tape, undefined, primes)}
+              </div>
             </div>
           </div>
         </div>
@@ -159,20 +219,3 @@ export const EmojiTapeDisplay: React.FC<EmojiTapeDisplayProps> = ({
     </Card>
   );
 };
-
-/**
- * Calculate simplified Gödel number for display
- */
-function calculateGodelNumber(tape: string): bigint {
-  const primeMap = new Map(INTRINSIC_PRIMES.map(p => [p.emoji, BigInt(p.prime)]));
-  let godel = BigInt(1);
-  
-  for (const emoji of tape.replace(/\|/g, '')) {
-    const prime = primeMap.get(emoji);
-    if (prime) {
-      godel *= prime;
-    }
-  }
-  
-  return godel;
-}
\ No newline at end of file
@@ -1,95 +1,161 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { AlertCircle, Brain, Zap, Target } from 'lucide-react';
-import { emojiSampler } from '@/utils/llm-sampler';
+import { Brain, Zap, Target, X, RotateCcw, Plus } from 'lucide-react';
+import { emojiSampler } from '@/utils/llm-sampler-proxy';
 import { 
   type LLMSamplingResult, 
-  type SupportedModels, 
+  type ModelId, 
   type PrimeMappedEmbedding,
+  type SamplingJob,
+  type ModelTask,
+  type PoolingStrategy,
+  type SamplingConfig,
+  type DeviceSupport,
+  type SamplingJobStatus,
   EMOJI_BLOCK_TAPE 
 } from '@/types/llm';
 import { useToast } from '@/hooks/use-toast';
+import { useSamplingQueue } from '@/hooks/use-sampling-queue';
+import { useModelRegistry } from '@/hooks/use-model-registry';
+import { usePrimeAlphabet } from '@/hooks/use-prime-alphabet';
+import { useRuntimePreferences } from '@/hooks/use-runtime-preferences';
+import { GODEL_SCHEMES, formatGodelScientific } from '@/utils/godel';
+import { EmbeddingProjection } from '@/components/EmbeddingProjection';
+import { RepresentationalSimilarityPanel } from '@/components/RepresentationalSimilarityPanel';
+import { ModelComparisonView } from '@/components/ModelComparisonView';
+import { buildModelComparison, tapesByModel } from '@/utils/model-comparison';
+import { SemanticDriftChart } from '@/components/SemanticDriftChart';
+import { ModelCachePanel } from '@/components/ModelCachePanel';
+import { SamplingHistoryBrowser } from '@/components/SamplingHistoryBrowser';
+import { ResultsExportPanel } from '@/components/ResultsExportPanel';
+import { samplingHistory } from '@/utils/sampling-history';
+import { resultKey } from '@/utils/result-serialization';
+import { RuntimeSelector } from '@/components/RuntimeSelector';
+import { SurprisalStrip } from '@/components/SurprisalStrip';
+import { EmojiAttributionView } from '@/components/EmojiAttributionView';
+import { AttentionHeatmap } from '@/components/AttentionHeatmap';
 
 interface LLMSamplingInterfaceProps {
+  tape?: string;
   className?: string;
 }
 
-const AVAILABLE_MODELS: { name: SupportedModels; label: string; description: string }[] = [
-  {
-    name: 'Xenova/bert-base-uncased',
-    label: 'BERT Base',
-    description: 'Bidirectional encoder, great for understanding context'
-  },
-  {
-    name: 'Xenova/distilbert-base-uncased', 
-    label: 'DistilBERT',
-    description: 'Faster, lighter version of BERT'
-  },
-  {
-    name: 'Xenova/all-MiniLM-L6-v2',
-    label: 'MiniLM',
-    description: 'Optimized for sentence embeddings'
-  }
-];
-
-export const LLMSamplingInterface: React.FC<LLMSamplingInterfaceProps> = ({ className = '' }) => {
-  const [selectedModel, setSelectedModel] = useState<SupportedModels>('Xenova/distilbert-base-uncased');
-  const [isLoading, setIsLoading] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [results, setResults] = useState<LLMSamplingResult[]>([]);
-  const [currentPhase, setCurrentPhase] = useState<string>('');
-  const { toast } = useToast();
-
-  const sampleModel = useCallback(async (modelName: SupportedModels) => {
-    setIsLoading(true);
-    setProgress(0);
-    setCurrentPhase('🎩 Initializing model...');
+const POOLING_OPTIONS: Record<ModelTask, PoolingStrategy[]> = {
+  'feature-extraction': ['mean', 'cls'],
+  'text-generation': ['last-token', 'mean']
+};
 
-    try {
-      // Initialize model
-      await emojiSampler.initializeModel(modelName);
-      setProgress(25);
-      setCurrentPhase('🔢 Tokenizing emoji tape...');
+const TASK_SUMMARIES: Record<ModelTask, string> = {
+  'feature-extraction': 'supports feature extraction',
+  'text-generation': 'is a causal language model, sampled through its hidden states'
+};
 
-      // Small delay to show progress
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setProgress(50);
-      setCurrentPhase('🧬 Generating embeddings...');
+const JOB_STATUS_STYLES: Record<SamplingJobStatus, string> = {
+  queued: 'text-muted-foreground border-border',
+  running: 'text-blue-400 border-blue-400',
+  succeeded: 'text-green-400 border-green-400',
+  failed: 'text-destructive border-destructive',
+  cancelled: 'text-yellow-400 border-yellow-400'
+};
 
-      await new Promise(resolve => setTimeout(resolve, 500));
-      setProgress(75);
-      setCurrentPhase('🎯 Mapping to intrinsic primes...');
+export const LLMSamplingInterface: React.FC<LLMSamplingInterfaceProps> = ({ tape = EMOJI_BLOCK_TAPE, className = '' }) => {
+  const [selectedModel, setSelectedModel] = useState<ModelId>('Xenova/distilbert-base-uncased');
+  const [results, setResults] = useState<LLMSamplingResult[]>([]);
+  const [driftBaseline, setDriftBaseline] = useState<ModelId | null>(null);
+  const [poolings, setPoolings] = useState<Partial<Record<ModelId, PoolingStrategy>>>({});
+  const [deviceSupport, setDeviceSupport] = useState<DeviceSupport | null>(null);
+  const [customModelId, setCustomModelId] = useState('');
+  const [isAddingModel, setIsAddingModel] = useState(false);
+  const { registry, entries: models } = useModelRegistry();
+  const { alphabet } = usePrimeAlphabet();
+  const { preferences, runtimes } = useRuntimePreferences();
+  const { toast } = useToast();
+  const modelIds = useMemo(() => models.map(model => model.id), [models]);
+  const modelLabel = (id: ModelId) => registry.get(id)?.label ?? id;
+  const selectedEntry = registry.get(selectedModel);
+  const samplingConfig = (id: ModelId): SamplingConfig => ({
+    runtime: runtimes[id],
+    pooling: poolings[id],
+    alphabet: alphabet.primes
+  });
 
-      // Sample the tape
-      const result = await emojiSampler.sampleTape(modelName);
-      setProgress(100);
-      setCurrentPhase('🚀 Complete!');
+  useEffect(() => {
+    emojiSampler.getDeviceSupport().then(setDeviceSupport, error => console.warn('🎲 Device detection failed:', error));
+  }, []);
+  // Models are compared on one tape at a time, the current tape unless another is picked
+  const [pickedTape, setPickedTape] = useState<string | null>(null);
+  const tapeGroups = useMemo(() => tapesByModel(results), [results]);
+  const comparisonTape = pickedTape !== null && tapeGroups.some(group => group.tape === pickedTape) ? pickedTape : tape;
+  const sharesTape = tapeGroups.some(group => group.models.length > 1);
+  const comparison = useMemo(() => buildModelComparison(results, comparisonTape), [results, comparisonTape]);
+  const loadedKeys = useMemo(() => results.map(resultKey), [results]);
 
-      // Add to results
-      setResults(prev => [result, ...prev]);
+  // Stored or imported results join the live ones, newest first like freshly sampled ones
+  const loadResults = useCallback((loaded: LLMSamplingResult[]) => {
+    setResults(prev => {
+      const present = new Set(prev.map(resultKey));
+      const fresh = loaded.filter(result => !present.has(resultKey(result)));
+      return [...prev, ...fresh].sort((a, b) => b.timestamp - a.timestamp);
+    });
+  }, []);
 
+  const handleJobSettled = useCallback((job: SamplingJob) => {
+    if (job.status === 'succeeded') {
+      setResults(prev => [job.result, ...prev]);
+      samplingHistory.add(job.result).catch(error => console.warn('🔢 Result not saved to history:', error));
       toast({
         title: "🎩 Model Sampled Successfully",
-        description: `${modelName} processed the emoji tape. Prime 2 (🎩) activation: ${result.universalAnchor.prime2Activation.toFixed(4)}`,
+        description: `${job.model} processed the emoji tape. Prime 2 (🎩) activation: ${job.result.universalAnchor.prime2Activation.toFixed(4)}`,
       });
+    } else if (job.status === 'failed') {
+      console.error('Sampling failed:', job.error);
+      toast({
+        title: "🎲 Sampling Failed",
+        description: `${job.model} failed after ${job.attempts} attempts: ${job.error ?? 'Unknown error occurred'}`,
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  const { queue, jobs } = useSamplingQueue(handleJobSettled);
+  const isSelectedPending = jobs.some(
+    job => job.model === selectedModel && (job.status === 'queued' || job.status === 'running')
+  );
+  const hasSettledJobs = jobs.some(job => job.status !== 'queued' && job.status !== 'running');
 
+  const addCustomModel = async () => {
+    setIsAddingModel(true);
+    try {
+      const entry = await registry.add(customModelId);
+      setSelectedModel(entry.id);
+      setCustomModelId('');
+      toast({ title: '🧬 Model Added', description: `${entry.id} ${TASK_SUMMARIES[entry.task]} and is ready to sample.` });
     } catch (error) {
-      console.error('Sampling failed:', error);
       toast({
-        title: "🎲 Sampling Failed",
+        title: '🎲 Model Rejected',
         description: error instanceof Error ? error.message : 'Unknown error occurred',
-        variant: "destructive"
+        variant: 'destructive'
       });
     } finally {
-      setIsLoading(false);
-      setProgress(0);
-      setCurrentPhase('');
+      setIsAddingModel(false);
     }
-  }, [toast]);
+  };
+
+  const removeCustomModel = (id: ModelId) => {
+    registry.remove(id);
+    if (selectedModel === id) setSelectedModel(models[0].id);
+  };
+
+  const selectDriftBaseline = (modelName: ModelId | null) => {
+    emojiSampler.setDriftBaseline(modelName);
+    setDriftBaseline(modelName);
+  };
 
   const getPrimeActivationColor = (activation: number): string => {
     const intensity = Math.abs(activation);
@@ -117,66 +183,176 @@ export const LLMSamplingInterface: React.FC<LLMSamplingInterfaceProps> = ({ clas
           <div>
             <label className="text-sm font-medium mb-2 block">Select Model to Sample</label>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
-              {AVAILABLE_MODELS.map((model) => (
-                <button
-                  key={model.name}
-                  onClick={() => setSelectedModel(model.name)}
-                  className={`p-3 rounded-lg border text-left transition-all duration-200 ${
-                    selectedModel === model.name
+              {models.map((model) => (
+                <div
+                  key={model.id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => setSelectedModel(model.id)}
+                  onKeyDown={(event) => event.key === 'Enter' && setSelectedModel(model.id)}
+                  className={`p-3 rounded-lg border text-left cursor-pointer transition-all duration-200 ${
+                    selectedModel === model.id
                       ? 'border-primary bg-primary/10 shadow-glow-prime'
                       : 'border-border hover:border-primary/50 hover:bg-muted/20'
                   }`}
                 >
-                  <div className="font-medium text-sm">{model.label}</div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-sm">{model.label}</span>
+                    {!model.builtin && (
+                      <button
+                        onClick={(event) => { event.stopPropagation(); removeCustomModel(model.id); }}
+                        className="ml-auto text-muted-foreground hover:text-destructive"
+                        title={`Remove ${model.id}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
                   <div className="text-xs text-muted-foreground mt-1">{model.description}</div>
-                </button>
+                  <div className="text-xs text-muted-foreground mt-2 font-mono">
+                    {model.task} · {model.pooling} pool · {model.layers ?? '?'}×{model.hiddenSize ?? '?'} · {model.tokenizerFamily} · {model.license}
+                  </div>
+                </div>
               ))}
             </div>
+            <form
+              className="flex items-center gap-2 mt-3"
+              onSubmit={(event) => { event.preventDefault(); void addCustomModel(); }}
+            >
+              <Input
+                value={customModelId}
+                onChange={(event) => setCustomModelId(event.target.value)}
+                placeholder="Add a Hugging Face model id, e.g. Xenova/bge-small-en-v1.5"
+                className="h-8 font-mono text-sm"
+              />
+              <Button type="submit" variant="outline" size="sm" disabled={!customModelId.trim() || isAddingModel}>
+                <Plus className="w-4 h-4" />
+                {isAddingModel ? 'Checking...' : 'Add Model'}
+              </Button>
+            </form>
           </div>
 
+          {/* Runtime Selection */}
+          <RuntimeSelector
+            value={runtimes[selectedModel] ?? {}}
+            support={deviceSupport}
+            onChange={runtime => preferences.set(selectedModel, runtime)}
+          />
+          {selectedEntry && (
+            <div className="flex items-center gap-3 text-sm">
+              <span className="text-muted-foreground">Pooling</span>
+              <Select
+                value={poolings[selectedModel] ?? selectedEntry.pooling}
+                onValueChange={pooling => setPoolings(prev => ({ ...prev, [selectedModel]: pooling as PoolingStrategy }))}
+              >
+                <SelectTrigger className="w-32 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {POOLING_OPTIONS[selectedEntry.task].map(pooling => (
+                    <SelectItem key={pooling} value={pooling}>{pooling}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Sampling Controls */}
+          <div className="text-xs text-muted-foreground">
+            Tape: <span className="font-mono">{tape}</span> · Alphabet: {alphabet.name}
+            {tape !== EMOJI_BLOCK_TAPE && <Badge variant="outline" className="ml-2 text-xs">Edited</Badge>}
+          </div>
           <div className="flex items-center gap-3">
             <Button
-              onClick={() => sampleModel(selectedModel)}
-              disabled={isLoading}
+              onClick={() => queue.enqueue(selectedModel, tape, samplingConfig(selectedModel))}
+              disabled={isSelectedPending}
               variant="cosmic"
               className="flex-1"
             >
-              {isLoading ? (
+              {isSelectedPending ? (
                 <Zap className="w-4 h-4 mr-2 animate-spin" />
               ) : (
                 <Target className="w-4 h-4 mr-2" />
               )}
-              {isLoading ? 'Sampling...' : `Sample ${AVAILABLE_MODELS.find(m => m.name === selectedModel)?.label}`}
+              {isSelectedPending ? 'Queued...' : `Sample ${modelLabel(selectedModel)}`}
             </Button>
             
             <Button
-              onClick={() => {
-                // Sample all models sequentially
-                AVAILABLE_MODELS.forEach((model, index) => {
-                  setTimeout(() => sampleModel(model.name), index * 2000);
-                });
-              }}
-              disabled={isLoading}
+              onClick={() => models.forEach(model => queue.enqueue(model.id, tape, samplingConfig(model.id)))}
               variant="prime"
             >
               Sample All Models
             </Button>
           </div>
 
-          {/* Progress */}
-          {isLoading && (
+          {/* Sampling Queue */}
+          {jobs.length > 0 && (
             <div className="space-y-2">
-              <div className="flex items-center gap-2 text-sm">
-                <Zap className="w-4 h-4 text-primary animate-pulse" />
-                {currentPhase}
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">Sampling Queue</span>
+                <Button variant="ghost" size="sm" onClick={() => queue.clearSettled()} disabled={!hasSettledJobs}>
+                  Clear Finished
+                </Button>
               </div>
-              <Progress value={progress} className="h-2" />
+              {jobs.map(job => (
+                <div key={job.id} className="p-3 rounded-lg bg-muted/20 border border-border/50 space-y-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">
+                      {modelLabel(job.model)}
+                    </span>
+                    <Badge variant="outline" className={JOB_STATUS_STYLES[job.status]}>
+                      {job.status}
+                    </Badge>
+                    {job.attempts > 1 && (
+                      <span className="text-xs text-muted-foreground">attempt {job.attempts}</span>
+                    )}
+                    <div className="ml-auto flex items-center gap-1">
+                      {(job.status === 'queued' || job.status === 'running') && (
+                        <Button variant="ghost" size="sm" onClick={() => queue.cancel(job.id)}>
+                          <X className="w-4 h-4" />
+                          Cancel
+                        </Button>
+                      )}
+                      {(job.status === 'failed' || job.status === 'cancelled') && (
+                        <Button variant="ghost" size="sm" onClick={() => queue.retry(job.id)}>
+                          <RotateCcw className="w-4 h-4" />
+                          Retry
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {job.status === 'running' && job.progress && (
+                    <>
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Zap className="w-3 h-3 text-primary animate-pulse" />
+                        {job.progress.message}
+                      </div>
+                      <Progress value={job.progress.progress} className="h-2" />
+                    </>
+                  )}
+                  {job.error && job.status !== 'running' && (
+                    <div className="text-xs text-destructive">{job.error}</div>
+                  )}
+                </div>
+              ))}
             </div>
           )}
         </CardContent>
       </Card>
 
+      {/* Model Cache */}
+      <ModelCachePanel models={modelIds} refreshToken={results.length} />
+
+      {/* Sampling History */}
+      <SamplingHistoryBrowser loadedKeys={loadedKeys} onLoad={loadResults} />
+
+      {/* Export & Import */}
+      <ResultsExportPanel
+        results={results}
+        comparison={comparison.models.length > 0 ? comparison : null}
+        onImport={loadResults}
+      />
+
       {/* Results Display */}
       {results.length > 0 && (
         <Card className="bg-card/50 backdrop-blur-sm border-accent/20">
@@ -191,10 +367,12 @@ export const LLMSamplingInterface: React.FC<LLMSamplingInterfaceProps> = ({ clas
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="overview" className="w-full">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-5">
                 <TabsTrigger value="overview">Overview</TabsTrigger>
                 <TabsTrigger value="primes">Prime Mappings</TabsTrigger>
+                <TabsTrigger value="attention">Attention</TabsTrigger>
                 <TabsTrigger value="embeddings">Embeddings</TabsTrigger>
+                <TabsTrigger value="comparison">Comparison</TabsTrigger>
               </TabsList>
 
               <TabsContent value="overview" className="space-y-4">
@@ -203,8 +381,15 @@ export const LLMSamplingInterface: React.FC<LLMSamplingInterfaceProps> = ({ clas
                     <div className="flex items-center justify-between mb-3">
                       <h4 className="font-semibold">{result.tokenization.model}</h4>
                       <div className="flex items-center gap-2">
-                        <Badge variant="outline">
-                          Gödel: {result.godelEncoding.godelNumber.toString().slice(0, 8)}...
+                        <Badge variant="outline" title={result.godelEncoding.godelNumber.toString()}>
+                          Gödel ({GODEL_SCHEMES[result.godelEncoding.scheme].label}): {formatGodelScientific(result.godelEncoding.godelNumber)}
+                        </Badge>
+                        <Badge
+                          variant="outline"
+                          title={`${GODEL_SCHEMES.positional.label}: ${result.godelEncoding.positional.godelNumber.toString()}`}
+                        >
+                          {GODEL_SCHEMES.positional.label}: {formatGodelScientific(result.godelEncoding.positional.godelNumber)}{' '}
+                          {result.godelEncoding.positional.roundTrip ? '✓' : '✗'}
                         </Badge>
                         <Badge 
                           variant="outline"
@@ -226,13 +411,38 @@ export const LLMSamplingInterface: React.FC<LLMSamplingInterfaceProps> = ({ clas
                       </div>
                       <div>
                         <span className="text-muted-foreground">Layers:</span>
-                        <div className="font-mono">{result.embeddings.metadata.totalLayers}</div>
+                        <div className="font-mono">
+                          {result.embeddings.layers.length} of {result.embeddings.metadata.totalLayers}
+                          {result.embeddings.layers.length === 1 && (
+                            <span className="text-xs text-muted-foreground"> (final only; export has no per-layer states)</span>
+                          )}
+                        </div>
                       </div>
                       <div>
                         <span className="text-muted-foreground">Processing:</span>
-                        <div className="font-mono">{result.embeddings.metadata.processingTime.toFixed(1)}ms</div>
+                        <div className="font-mono">
+                          {result.embeddings.metadata.processingTime.toFixed(1)}ms
+                          <span className="text-xs text-muted-foreground"> ({result.embeddings.metadata.device}/{result.embeddings.metadata.dtype})</span>
+                        </div>
                       </div>
                     </div>
+
+                    <div className="mt-3 space-y-2">
+                      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                        <span>Vocab: <span className="font-mono">{result.tokenization.metadata.vocabSize}</span></span>
+                        <span>[UNK]: <span className="font-mono">{result.tokenization.metadata.unknownTokens}</span></span>
+                        <span>Byte pieces: <span className="font-mono">{result.tokenization.metadata.byteFallbackTokens}</span></span>
+                        <span>Readout: <span className="font-mono">{result.embeddings.metadata.pooling} pool of {result.embeddings.metadata.readout}</span></span>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {result.tokenization.tokenStrings.map((token, tokenIndex) => (
+                          <Badge key={tokenIndex} variant="secondary" className="font-mono text-xs" title={`id ${result.tokenization.tokens[tokenIndex]}`}>
+                            {token}
+                          </Badge>
+                        ))}
+                      </div>
+                      {result.decoder && <SurprisalStrip analysis={result.decoder} />}
+                    </div>
                   </div>
                 ))}
               </TabsContent>
@@ -242,7 +452,7 @@ export const LLMSamplingInterface: React.FC<LLMSamplingInterfaceProps> = ({ clas
                   <div key={resultIndex} className="space-y-3">
                     <h4 className="font-semibold text-primary">{result.tokenization.model}</h4>
                     <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
-                      {result.primeMapping.slice(0, 10).map((mapping) => (
+                      {result.primeMapping.map((mapping) => (
                         <div 
                           key={mapping.prime}
                           className="p-3 rounded-lg bg-muted/20 text-center border border-border/30"
@@ -256,16 +466,61 @@ export const LLMSamplingInterface: React.FC<LLMSamplingInterfaceProps> = ({ clas
                         </div>
                       ))}
                     </div>
+                    <EmojiAttributionView result={result} />
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="attention" className="space-y-4">
+                {results.map((result, resultIndex) => (
+                  <div key={resultIndex} className="space-y-3">
+                    <h4 className="font-semibold text-primary">{result.tokenization.model}</h4>
+                    {result.attention ? (
+                      <AttentionHeatmap attention={result.attention} />
+                    ) : (
+                      <div className="text-sm text-muted-foreground">
+                        This model export has no attention outputs.
+                      </div>
+                    )}
                   </div>
                 ))}
               </TabsContent>
 
               <TabsContent value="embeddings" className="space-y-4">
-                <div className="text-center p-6 text-muted-foreground">
-                  <AlertCircle className="w-8 h-8 mx-auto mb-2" />
-                  <div>Embedding visualization coming soon...</div>
-                  <div className="text-xs mt-1">Will show PCA projection and similarity matrix</div>
+                <div className="text-sm text-muted-foreground">
+                  PCA projection of each model's per-emoji embeddings and pooled tape embeddings, colored by prime.
+                </div>
+                <EmbeddingProjection results={results} />
+                <RepresentationalSimilarityPanel results={results} tape={comparisonTape} />
+              </TabsContent>
+
+              <TabsContent value="comparison" className="space-y-4">
+                <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+                  <span>
+                    Comparing the latest sample of {comparison.models.length} model{comparison.models.length !== 1 ? 's' : ''} on
+                  </span>
+                  <Select value={comparisonTape} onValueChange={setPickedTape}>
+                    <SelectTrigger className="w-72 h-8 font-mono">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {!tapeGroups.some(group => group.tape === tape) && (
+                        <SelectItem value={tape} className="font-mono">{tape} · 0 models</SelectItem>
+                      )}
+                      {tapeGroups.map(group => (
+                        <SelectItem key={group.tape} value={group.tape} className="font-mono">
+                          {group.tape} · {group.models.length} model{group.models.length !== 1 ? 's' : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
+                {!sharesTape && (
+                  <div className="text-sm text-muted-foreground">
+                    No two models have sampled the same tape yet. Comparisons only use samples of one tape.
+                  </div>
+                )}
+                {comparison.models.length > 0 && <ModelComparisonView comparison={comparison} />}
               </TabsContent>
             </Tabs>
           </CardContent>
@@ -310,35 +565,68 @@ export const LLMSamplingInterface: React.FC<LLMSamplingInterfaceProps> = ({ clas
                       <Progress value={consistency * 100} className="w-16 h-2" />
                       <span className="text-xs font-mono">{(consistency * 100).toFixed(1)}%</span>
                     </div>
+                    <div
+                      className="flex items-center gap-2"
+                      title={result.universalAnchor.driftReference
+                        ? `vs ${result.universalAnchor.driftReference.kind} sample of ${result.universalAnchor.driftReference.model}`
+                        : 'No reference sample yet'}
+                    >
+                      <span className="text-sm text-muted-foreground">Drift:</span>
+                      <span className="text-xs font-mono">
+                        {!result.universalAnchor.driftReference
+                          ? '—'
+                          : result.universalAnchor.semanticDrift === null
+                            ? 'not comparable'
+                            : result.universalAnchor.semanticDrift.toFixed(4)}
+                      </span>
+                    </div>
                   </div>
                 );
               })}
             </div>
             
-            {results.length > 0 && (
+            {comparison.models.length > 0 && (
               <div className="mt-4 p-3 rounded-lg bg-prime-2/10 border border-prime-2/30">
                 <div className="text-sm">
                   <span className="font-medium text-prime-2">Variance:</span>{' '}
-                  {calculatePrime2Variance(results).toFixed(4)}{' '}
+                  {comparison.convergenceMetrics.prime2Variance.toFixed(4)}{' '}
                   <span className="text-muted-foreground">
-                    (Lower variance = better universal anchor consistency)
+                    (Across the latest sample of each model on the compared tape. Lower variance = better universal anchor consistency)
                   </span>
                 </div>
               </div>
             )}
+
+            {/* Semantic Drift */}
+            <div className="mt-6 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <h4 className="font-semibold text-prime-2 mr-2">🎩 Semantic Drift</h4>
+                <span className="text-xs text-muted-foreground">Reference:</span>
+                {[null, ...modelIds].map((modelName) => (
+                  <button
+                    key={modelName ?? 'previous'}
+                    onClick={() => selectDriftBaseline(modelName)}
+                    className={`px-2 py-1 rounded-md border text-xs transition-all duration-200 ${
+                      driftBaseline === modelName
+                        ? 'border-prime-2 bg-prime-2/10'
+                        : 'border-border hover:border-prime-2/50'
+                    }`}
+                  >
+                    {modelName ? modelLabel(modelName) : 'Previous sample'}
+                  </button>
+                ))}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                Drift tracks the 🎩 emoji as each sample embeds it on the tape. Against the same model's previous sample it is
+                (1 − cosine) / 2 of the two embeddings; against a baseline model, whose space differs, (1 − r) / 2 where r correlates
+                🎩's similarity to the tape's other emojis. References include the stored history. Samples whose 🎩 emoji or meaning
+                differ are not comparable. A new reference applies to samples taken after choosing it.
+              </div>
+              <SemanticDriftChart results={results} />
+            </div>
           </CardContent>
         </Card>
       )}
     </div>
   );
 };
-
-/**
- * Calculate variance in Prime 2 activations across models
- */
-function calculatePrime2Variance(results: LLMSamplingResult[]): number {
-  const activations = results.map(r => r.universalAnchor.prime2Activation);
-  const mean = activations.reduce((sum, val) => sum + val, 0) / activations.length;
-  const variance = activations.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / activations.length;
-  return variance;
-}
\ No newline at end of file
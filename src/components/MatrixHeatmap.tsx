@@ -0,0 +1,86 @@
+import React from 'react';
+
+interface MatrixHeatmapProps {
+  matrix: number[][];
+  rowLabels: string[];
+  columnLabels?: string[];
+  title?: string;
+  min?: number;
+  max?: number;
+  onCellClick?: (row: number, column: number) => void;
+  boundaries?: number[]; // Row/column indices that start a new group, e.g. a tape segment
+  selected?: [number, number] | null;
+  className?: string;
+}
+
+export const MatrixHeatmap: React.FC<MatrixHeatmapProps> = ({
+  matrix,
+  rowLabels,
+  columnLabels = rowLabels,
+  title,
+  min = -1,
+  max = 1,
+  onCellClick,
+  boundaries = [],
+  selected = null,
+  className = ''
+}) => {
+  // Positive values shade toward primary, negative toward destructive
+  const getCellColor = (value: number): string => {
+    if (!Number.isFinite(value)) return 'transparent';
+    const scale = value >= 0 ? Math.max(max, Number.EPSILON) : Math.min(min, -Number.EPSILON);
+    const intensity = Math.min(1, Math.abs(value / scale));
+    const color = value >= 0 ? '--primary' : '--destructive';
+    return `hsl(var(${color}) / ${(0.1 + intensity * 0.85).toFixed(3)})`;
+  };
+
+  const getBoundaryShadow = (row: number, column: number): string | undefined => {
+    const edges = [
+      boundaries.includes(column) ? 'inset 2px 0 0 hsl(var(--foreground) / 0.5)' : null,
+      boundaries.includes(row) ? 'inset 0 2px 0 hsl(var(--foreground) / 0.5)' : null
+    ].filter(Boolean);
+    return edges.length > 0 ? edges.join(', ') : undefined;
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {title && <h5 className="text-sm font-medium">{title}</h5>}
+      <div className="overflow-x-auto">
+        <table className="border-separate border-spacing-0.5 text-xs">
+          <thead>
+            <tr>
+              <th />
+              {columnLabels.map((label, column) => (
+                <th key={column} className="px-1 font-normal text-muted-foreground whitespace-nowrap">
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                <th className="pr-2 text-right font-normal text-muted-foreground whitespace-nowrap">
+                  {rowLabels[rowIndex]}
+                </th>
+                {row.map((value, column) => (
+                  <td
+                    key={column}
+                    className={`w-10 h-8 text-center font-mono rounded-sm ${onCellClick ? 'cursor-pointer' : ''} ${
+                      selected?.[0] === rowIndex && selected?.[1] === column ? 'ring-2 ring-primary' : ''
+                    }`}
+                    style={{ backgroundColor: getCellColor(value), boxShadow: getBoundaryShadow(rowIndex, column) }}
+                    title={`${rowLabels[rowIndex]} × ${columnLabels[column]}: ${value.toFixed(4)}`}
+                    onClick={onCellClick ? () => onCellClick(rowIndex, column) : undefined}
+                  >
+                    {value.toFixed(2)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
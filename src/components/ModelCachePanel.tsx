@@ -0,0 +1,136 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Download, HardDrive, RefreshCw, Trash2 } from 'lucide-react';
+import { type CachedModelInfo, type SamplingProgress, type ModelId } from '@/types/llm';
+import { emojiSampler } from '@/utils/llm-sampler-proxy';
+import { modelRegistry } from '@/utils/model-registry';
+import { runtimePreferences } from '@/utils/runtime-preferences';
+import { evictCachedModel, formatBytes, listCachedModels } from '@/utils/model-cache';
+import { useToast } from '@/hooks/use-toast';
+
+interface ModelCachePanelProps {
+  models: ModelId[];
+  refreshToken?: unknown; // Re-read the cache whenever this changes, e.g. after a sample
+  className?: string;
+}
+
+export const ModelCachePanel: React.FC<ModelCachePanelProps> = ({
+  models,
+  refreshToken,
+  className = ''
+}) => {
+  const [cached, setCached] = useState<CachedModelInfo[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [downloads, setDownloads] = useState<Partial<Record<ModelId, SamplingProgress | null>>>({});
+  const { toast } = useToast();
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true);
+    try {
+      setCached(await listCachedModels(models));
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [models]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh, refreshToken]);
+
+  const prefetch = async (model: ModelId) => {
+    setDownloads(prev => ({ ...prev, [model]: null }));
+    try {
+      // Download the weights sampling will use, and keep the session it loaded
+      await emojiSampler.initializeModel(model, {
+        task: modelRegistry.get(model)?.task,
+        runtime: runtimePreferences.get(model),
+        onProgress: update => setDownloads(prev => ({ ...prev, [model]: update }))
+      });
+      toast({ title: '⬇️ Model Cached', description: `${model} is ready to sample offline.` });
+    } catch (error) {
+      toast({
+        title: '🎲 Download Failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive'
+      });
+    } finally {
+      setDownloads(prev => {
+        const { [model]: _finished, ...rest } = prev;
+        return rest;
+      });
+      await refresh();
+    }
+  };
+
+  const evict = async (model: ModelId) => {
+    await emojiSampler.releaseModel(model);
+    const removed = await evictCachedModel(model);
+    toast({ title: '🗑️ Model Evicted', description: `Removed ${removed} cached files for ${model}.` });
+    await refresh();
+  };
+
+  const totalSize = cached.reduce((sum, info) => sum + info.size, 0);
+
+  return (
+    <Card className={`bg-card/50 backdrop-blur-sm border-primary/20 ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HardDrive className="w-5 h-5 text-primary" />
+          Model Cache
+          <Badge variant="outline" className="ml-auto">
+            {formatBytes(totalSize)}
+          </Badge>
+          <Button variant="ghost" size="sm" onClick={() => void refresh()} disabled={isRefreshing}>
+            <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {models.map(model => {
+          const info = cached.find(c => c.model === model);
+          const isDownloading = model in downloads;
+          const download = downloads[model];
+
+          return (
+            <div key={model} className="p-3 rounded-lg bg-muted/20 border border-border/50 space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <span className="font-mono">{model}</span>
+                {info ? (
+                  <Badge variant="outline" className="text-green-400 border-green-400">
+                    {formatBytes(info.size)} · {info.files.length} files
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" className="text-muted-foreground">
+                    Not cached
+                  </Badge>
+                )}
+                <div className="ml-auto flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => void prefetch(model)} disabled={isDownloading}>
+                    <Download className="w-4 h-4" />
+                    {info ? 'Load' : 'Pre-fetch'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => void evict(model)} disabled={!info || isDownloading}>
+                    <Trash2 className="w-4 h-4" />
+                    Evict
+                  </Button>
+                </div>
+              </div>
+              {isDownloading && (
+                <>
+                  <div className="text-xs text-muted-foreground">{download?.message ?? '🎩 Initializing model...'}</div>
+                  <Progress
+                    value={download?.download ? (download.download.loaded / Math.max(download.download.total, 1)) * 100 : 0}
+                    className="h-2"
+                  />
+                </>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
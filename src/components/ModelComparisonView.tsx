@@ -0,0 +1,114 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, Scatter, ScatterChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { MatrixHeatmap } from '@/components/MatrixHeatmap';
+import { type ModelComparison } from '@/types/llm';
+
+interface ModelComparisonViewProps {
+  comparison: ModelComparison;
+  className?: string;
+}
+
+const chartConfig: ChartConfig = {
+  models: { label: 'Models', color: 'hsl(var(--primary))' },
+  variance: { label: '🎩 Variance', color: 'hsl(var(--prime-2))' }
+};
+
+const METRICS: { key: keyof ModelComparison['convergenceMetrics']; label: string; description: string }[] = [
+  {
+    key: 'prime2Variance',
+    label: '🎩 Prime 2 Variance',
+    description: 'Variance of the 🎩 anchor cosine across models (lower is more invariant)'
+  },
+  {
+    key: 'semanticAlignment',
+    label: 'Semantic Alignment',
+    description: 'Mean pairwise RSA of prime emoji similarity matrices (−1 to 1)'
+  },
+  {
+    key: 'hierarchyPreservation',
+    label: 'Hierarchy Preservation',
+    description: 'Mean pairwise Spearman ρ of prime activation rankings (−1 to 1)'
+  }
+];
+
+export const ModelComparisonView: React.FC<ModelComparisonViewProps> = ({ comparison, className = '' }) => {
+  const modelLabels = comparison.models.map(model => model.split('/')[1] ?? model);
+  const embeddingPoints = comparison.visualizations.embeddingSpace.map(([x, y], index) => ({
+    x,
+    y,
+    label: modelLabels[index]
+  }));
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      {/* Convergence Metrics */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {METRICS.map(metric => (
+          <div key={metric.key} className="p-4 rounded-lg bg-muted/20 border border-border/50">
+            <div className="text-sm text-muted-foreground">{metric.label}</div>
+            <div className="text-2xl font-mono text-primary">
+              {comparison.convergenceMetrics[metric.key].toFixed(4)}
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">{metric.description}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Prime Distribution */}
+      <MatrixHeatmap
+        title="Prime Distribution (normalized activation)"
+        matrix={comparison.visualizations.primeDistribution}
+        rowLabels={modelLabels}
+        columnLabels={comparison.alphabet.map(p => p.emoji)}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Embedding Space */}
+        <div className="space-y-2">
+          <h5 className="text-sm font-medium">Activation Profile Space (PCA)</h5>
+          <ChartContainer config={chartConfig} className="aspect-square max-h-[320px] w-full">
+            <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+              <CartesianGrid />
+              <XAxis type="number" dataKey="x" name="PC1" tickFormatter={(value: number) => value.toFixed(2)} />
+              <YAxis type="number" dataKey="y" name="PC2" tickFormatter={(value: number) => value.toFixed(2)} />
+              <ChartTooltip
+                cursor={false}
+                content={({ active, payload }) => {
+                  const point = payload?.[0]?.payload as (typeof embeddingPoints)[number] | undefined;
+                  if (!active || !point) return null;
+                  return (
+                    <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+                      <div className="font-medium">{point.label}</div>
+                      <div className="font-mono text-muted-foreground">
+                        ({point.x.toFixed(3)}, {point.y.toFixed(3)})
+                      </div>
+                    </div>
+                  );
+                }}
+              />
+              <Scatter name="models" data={embeddingPoints} fill="var(--color-models)" />
+            </ScatterChart>
+          </ChartContainer>
+        </div>
+
+        {/* Convergence Plot */}
+        <div className="space-y-2">
+          <h5 className="text-sm font-medium">🎩 Variance as Models Are Added</h5>
+          <ChartContainer config={chartConfig} className="aspect-square max-h-[320px] w-full">
+            <LineChart
+              data={comparison.visualizations.convergencePlot.map(point => ({ models: point.x, variance: point.y }))}
+              margin={{ top: 20, right: 20, bottom: 20, left: 20 }}
+            >
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="models" allowDecimals={false} />
+              <YAxis tickFormatter={(value: number) => value.toExponential(1)} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line dataKey="variance" type="monotone" stroke="var(--color-variance)" strokeWidth={2} dot />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { FastForward, Sparkles, Zap } from 'lucide-react';
+import { EMOJI_BLOCK_TAPE, type DecoderAnalysis, type ModelId, type NextEmojiPrediction } from '@/types/llm';
+import { emojiSampler } from '@/utils/llm-sampler-proxy';
+import { SEGMENT_SEPARATOR } from '@/utils/tape-parser';
+import { useModelRegistry } from '@/hooks/use-model-registry';
+import { usePrimeAlphabet } from '@/hooks/use-prime-alphabet';
+import { useRuntimePreferences } from '@/hooks/use-runtime-preferences';
+import { useToast } from '@/hooks/use-toast';
+
+interface NextEmojiPredictorProps {
+  initialPrefix?: string;
+  className?: string;
+}
+
+const TOP_K_OPTIONS = [3, 5, 10];
+const GENERATE_STEPS = 5;
+
+export const NextEmojiPredictor: React.FC<NextEmojiPredictorProps> = ({
+  initialPrefix = EMOJI_BLOCK_TAPE.split(SEGMENT_SEPARATOR)[0],
+  className = ''
+}) => {
+  const { entries } = useModelRegistry();
+  const { alphabet } = usePrimeAlphabet();
+  const { runtimes } = useRuntimePreferences();
+  const causalModels = entries.filter(entry => entry.task === 'text-generation');
+  const [selectedModel, setSelectedModel] = useState<ModelId | null>(null);
+  const activeModel = causalModels.some(m => m.id === selectedModel) ? selectedModel : causalModels[0]?.id;
+
+  const [prefix, setPrefix] = useState(initialPrefix);
+  const [topK, setTopK] = useState(5);
+  const [prediction, setPrediction] = useState<NextEmojiPrediction | null>(null);
+  const [analysis, setAnalysis] = useState<DecoderAnalysis | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const predictFor = async (text: string): Promise<NextEmojiPrediction> => {
+    setStatus('🎩 Loading model...');
+    // Same runtime as sampling picked, so the model is not reloaded between views
+    await emojiSampler.initializeModel(activeModel, {
+      task: 'text-generation',
+      runtime: runtimes[activeModel],
+      onProgress: update => setStatus(update.message)
+    });
+    setStatus('🎲 Scoring candidates...');
+    // The worker runs requests on one model in turn, after any queued sampling job
+    const next = await emojiSampler.predictNextEmoji(activeModel, text, topK, alphabet.primes);
+    const scored = text ? await emojiSampler.scoreTape(activeModel, text) : null;
+    setPrediction(next);
+    setAnalysis(scored);
+    return next;
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: '🎲 Prediction Failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive'
+      });
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const predict = () => run(async () => {
+    await predictFor(prefix);
+  });
+
+  // Greedy generation: keep appending the most likely prime emoji
+  const generate = () => run(async () => {
+    let text = prefix;
+    for (let step = 0; step < GENERATE_STEPS; step++) {
+      const next = await predictFor(text);
+      text += next.candidates[0].emoji;
+      setPrefix(text);
+    }
+    await predictFor(text);
+  });
+
+  const append = (emoji: string) => {
+    const text = prefix + emoji;
+    setPrefix(text);
+    void run(async () => {
+      await predictFor(text);
+    });
+  };
+
+  const isBusy = status !== null;
+
+  return (
+    <Card className={`bg-card/50 backdrop-blur-sm border-secondary/20 ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="w-5 h-5 text-secondary" />
+          Next-Emoji Prediction
+          {analysis && (
+            <Badge variant="outline" className="ml-auto" title={`${analysis.tokenLogProbs.length} tokens`}>
+              Perplexity {analysis.perplexity.toFixed(2)}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {causalModels.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            Add a causal language model to the registry to predict the next emoji.
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {causalModels.map(model => (
+                <button
+                  key={model.id}
+                  onClick={() => setSelectedModel(model.id)}
+                  className={`px-3 py-1 rounded-md border text-xs transition-all duration-200 ${
+                    model.id === activeModel
+                      ? 'border-primary bg-primary/10'
+                      : 'border-border hover:border-primary/50 hover:bg-muted/20'
+                  }`}
+                >
+                  {model.label}
+                </button>
+              ))}
+              <div className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+                Top
+                {TOP_K_OPTIONS.map(k => (
+                  <button
+                    key={k}
+                    onClick={() => setTopK(k)}
+                    className={`px-2 py-0.5 rounded border ${k === topK ? 'border-primary text-primary' : 'border-border'}`}
+                  >
+                    {k}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Input
+                value={prefix}
+                onChange={event => setPrefix(event.target.value)}
+                placeholder="Tape prefix"
+                className="text-lg"
+              />
+              <Button variant="cosmic" onClick={() => void predict()} disabled={isBusy}>
+                {isBusy ? <Zap className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                Predict
+              </Button>
+              <Button variant="outline" onClick={() => void generate()} disabled={isBusy}>
+                <FastForward className="w-4 h-4" />
+                Generate {GENERATE_STEPS}
+              </Button>
+            </div>
+
+            {status && <div className="text-sm text-muted-foreground">{status}</div>}
+
+            {prediction && (
+              <div className="space-y-2">
+                <div className="text-xs text-muted-foreground">
+                  {(prediction.coverage * 100).toPrecision(2)}% of the model's next-text probability falls on the {alphabet.primes.length} primes of {alphabet.name}.
+                  Click an emoji to append it.
+                </div>
+                {prediction.candidates.map(candidate => (
+                  <button
+                    key={candidate.prime}
+                    onClick={() => append(candidate.emoji)}
+                    disabled={isBusy}
+                    className="w-full flex items-center gap-3 text-sm hover:bg-muted/20 rounded px-2 py-1"
+                  >
+                    <span className="text-xl">{candidate.emoji}</span>
+                    <span className="w-24 text-left text-muted-foreground">{candidate.meaning}</span>
+                    <Progress value={candidate.probability * 100} className="h-2 flex-1" />
+                    <span className="w-16 text-right font-mono">{(candidate.probability * 100).toFixed(1)}%</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {analysis && analysis.segmentPerplexity.length > 1 && (
+              <div className="flex flex-wrap gap-2 text-xs">
+                {analysis.segmentPerplexity.map(segment => (
+                  <Badge key={segment.segmentIndex} variant="secondary" className="font-mono">
+                    Segment {segment.segmentIndex + 1}: {segment.perplexity.toFixed(2)}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Plus, Trash2, X } from 'lucide-react';
+import { type EmojiPrimeMapping } from '@/types/llm';
+import { appendAlphabetEmoji, nextAlphabetPrime, primeColor } from '@/utils/prime-alphabet';
+import { usePrimeAlphabet } from '@/hooks/use-prime-alphabet';
+import { useToast } from '@/hooks/use-toast';
+
+interface PrimeAlphabetEditorProps {
+  className?: string;
+}
+
+export const PrimeAlphabetEditor: React.FC<PrimeAlphabetEditorProps> = ({ className = '' }) => {
+  const { registry, alphabets, alphabet } = usePrimeAlphabet();
+  const [newName, setNewName] = useState('');
+  const [emoji, setEmoji] = useState('');
+  const [meaning, setMeaning] = useState('');
+  const [vibe, setVibe] = useState('');
+  const { toast } = useToast();
+
+  const attempt = (action: () => void) => {
+    try {
+      action();
+    } catch (error) {
+      toast({
+        title: '🎲 Alphabet Not Changed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const updateEntry = (prime: number, changes: Partial<Pick<EmojiPrimeMapping, 'meaning' | 'vibe'>>) =>
+    attempt(() =>
+      registry.update(alphabet.id, {
+        primes: alphabet.primes.map(p => (p.prime === prime ? { ...p, ...changes } : p))
+      })
+    );
+
+  const removeEntry = (prime: number) =>
+    attempt(() => registry.update(alphabet.id, { primes: alphabet.primes.filter(p => p.prime !== prime) }));
+
+  const addEntry = () =>
+    attempt(() => {
+      registry.update(alphabet.id, { primes: appendAlphabetEmoji(alphabet.primes, emoji, meaning, vibe) });
+      setEmoji('');
+      setMeaning('');
+      setVibe('');
+    });
+
+  const createAlphabet = () =>
+    attempt(() => {
+      registry.create(newName);
+      setNewName('');
+    });
+
+  return (
+    <Card className={`bg-card/50 backdrop-blur-sm border-primary/20 ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <span className="text-xl">🔢</span>
+          Prime Alphabet
+          <Badge variant="outline" className="ml-auto">
+            {alphabet.primes.length} emoji{alphabet.primes.length !== 1 ? 's' : ''}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Alphabet selection */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={alphabet.id} onValueChange={id => attempt(() => registry.setActive(id))}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {alphabets.map(entry => (
+                <SelectItem key={entry.id} value={entry.id}>
+                  {entry.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {!alphabet.builtin && (
+            <Button variant="ghost" size="sm" onClick={() => attempt(() => registry.remove(alphabet.id))}>
+              <Trash2 className="w-4 h-4" />
+              Delete
+            </Button>
+          )}
+          <div className="flex items-center gap-2 ml-auto">
+            <Input
+              value={newName}
+              onChange={event => setNewName(event.target.value)}
+              placeholder={`${alphabet.name} (copy)`}
+              className="w-48"
+            />
+            <Button variant="outline" size="sm" onClick={createAlphabet}>
+              <Copy className="w-4 h-4" />
+              Save As New
+            </Button>
+          </div>
+        </div>
+
+        {alphabet.builtin ? (
+          <div className="text-sm text-muted-foreground">
+            {alphabet.name} is built in. Save it as a new alphabet to add emojis or edit meanings.
+          </div>
+        ) : (
+          <Input
+            value={alphabet.name}
+            onChange={event => attempt(() => registry.update(alphabet.id, { name: event.target.value }))}
+            aria-label="Alphabet name"
+          />
+        )}
+
+        {/* Entries */}
+        <div className="space-y-2">
+          {alphabet.primes.map(entry => (
+            <div key={entry.prime} className="flex items-center gap-2">
+              <span className="w-10 text-center text-2xl">{entry.emoji}</span>
+              <Badge
+                variant="outline"
+                className="w-12 justify-center font-mono"
+                style={{ borderColor: primeColor(entry.prime), color: primeColor(entry.prime) }}
+              >
+                {entry.prime}
+              </Badge>
+              <Input
+                value={entry.meaning}
+                onChange={event => updateEntry(entry.prime, { meaning: event.target.value })}
+                disabled={alphabet.builtin}
+                aria-label={`Meaning of ${entry.emoji}`}
+                className="flex-1"
+              />
+              <Input
+                value={entry.vibe}
+                onChange={event => updateEntry(entry.prime, { vibe: event.target.value })}
+                disabled={alphabet.builtin}
+                aria-label={`Vibe of ${entry.emoji}`}
+                className="flex-1"
+              />
+              {!alphabet.builtin && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeEntry(entry.prime)}
+                  disabled={alphabet.primes.length === 1}
+                  title={`Remove ${entry.emoji}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* New entry */}
+        {!alphabet.builtin && (
+          <div className="flex items-center gap-2 pt-2 border-t border-border/50">
+            <Input
+              value={emoji}
+              onChange={event => setEmoji(event.target.value)}
+              placeholder="🌀"
+              aria-label="New emoji"
+              className="w-16 text-center text-xl"
+            />
+            <Badge variant="secondary" className="w-12 justify-center font-mono" title="Next free prime">
+              {nextAlphabetPrime(alphabet.primes)}
+            </Badge>
+            <Input
+              value={meaning}
+              onChange={event => setMeaning(event.target.value)}
+              placeholder="Meaning"
+              className="flex-1"
+            />
+            <Input value={vibe} onChange={event => setVibe(event.target.value)} placeholder="Vibe" className="flex-1" />
+            <Button variant="prime" size="sm" onClick={addEntry} disabled={!emoji.trim()}>
+              <Plus className="w-4 h-4" />
+              Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,66 @@
+import React, { useMemo } from 'react';
+import { MatrixHeatmap } from '@/components/MatrixHeatmap';
+import { type LLMSamplingResult } from '@/types/llm';
+import { latestResultPerModel, tapesByModel } from '@/utils/model-comparison';
+import { compareRepresentations } from '@/utils/representational-similarity';
+import { sharedAlphabet } from '@/utils/prime-alphabet';
+
+interface RepresentationalSimilarityPanelProps {
+  results: LLMSamplingResult[];
+  tape: string; // Only results on this tape are compared
+  className?: string;
+}
+
+export const RepresentationalSimilarityPanel: React.FC<RepresentationalSimilarityPanelProps> = ({
+  results,
+  tape,
+  className = ''
+}) => {
+  const comparison = useMemo(() => {
+    const perModel = latestResultPerModel(results, tape);
+    return compareRepresentations(perModel, sharedAlphabet(perModel));
+  }, [results, tape]);
+  const sharesTape = useMemo(() => tapesByModel(results).some(group => group.models.length > 1), [results]);
+  const modelLabels = comparison.models.map(model => model.split('/')[1] ?? model);
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div>
+        <h4 className="font-semibold text-primary mb-1">Prime Emoji Similarity per Model</h4>
+        <div className="text-sm text-muted-foreground mb-3">
+          Cosine similarity between each model's embeddings of the prime emojis they share.
+        </div>
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          {comparison.models.map((model, index) => (
+            <MatrixHeatmap
+              key={model}
+              title={modelLabels[index]}
+              matrix={comparison.similarityMatrices[index]}
+              rowLabels={comparison.labels}
+            />
+          ))}
+        </div>
+      </div>
+
+      {comparison.models.length > 1 ? (
+        <div>
+          <h4 className="font-semibold text-primary mb-1">Cross-Model Alignment</h4>
+          <div className="text-sm text-muted-foreground mb-3">
+            RSA correlates the similarity matrices (Spearman); linear CKA compares the embeddings directly.
+            Both work across different hidden sizes.
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <MatrixHeatmap title="RSA (Spearman ρ)" matrix={comparison.rsa} rowLabels={modelLabels} />
+            <MatrixHeatmap title="Linear CKA" matrix={comparison.cka} rowLabels={modelLabels} min={0} />
+          </div>
+        </div>
+      ) : (
+        <div className="text-sm text-muted-foreground">
+          {sharesTape
+            ? 'Sample another model on this tape to compare representations across models.'
+            : 'No two models have sampled the same tape yet, and models are only compared on the same tape.'}
+        </div>
+      )}
+    </div>
+  );
+};
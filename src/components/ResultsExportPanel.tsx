@@ -0,0 +1,116 @@
+import React, { useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { FileDown, FileUp } from 'lucide-react';
+import { type LLMSamplingResult, type ModelComparison } from '@/types/llm';
+import { RESULTS_EXPORT_VERSION, type ExportFormat } from '@/types/export';
+import {
+  downloadText,
+  exportPrimeMappingsCSV,
+  exportPrimeMappingsColumnar,
+  exportResultsJSON,
+  importResultsJSON
+} from '@/utils/result-export';
+import { useToast } from '@/hooks/use-toast';
+
+interface ResultsExportPanelProps {
+  results: LLMSamplingResult[];
+  comparison: ModelComparison | null;
+  onImport: (results: LLMSamplingResult[]) => void;
+  className?: string;
+}
+
+const FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'json', label: 'JSON', description: 'Full results and comparison, re-importable' },
+  { format: 'csv', label: 'CSV', description: 'One row per prime per result' },
+  { format: 'columnar', label: 'Columnar', description: 'The CSV rows as columns, ready for Arrow or Parquet' }
+];
+
+export const ResultsExportPanel: React.FC<ResultsExportPanelProps> = ({
+  results,
+  comparison,
+  onImport,
+  className = ''
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const exportAs = (format: ExportFormat) => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    if (format === 'json') {
+      downloadText(`emoji-tape-results-${stamp}.json`, exportResultsJSON(results, comparison), 'application/json');
+    } else if (format === 'csv') {
+      downloadText(`emoji-tape-primes-${stamp}.csv`, exportPrimeMappingsCSV(results), 'text/csv');
+    } else {
+      downloadText(`emoji-tape-primes-${stamp}.columnar.json`, exportPrimeMappingsColumnar(results), 'application/json');
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = importResultsJSON(await file.text());
+      onImport(imported.results);
+      toast({
+        title: '📜 Results Imported',
+        description: `Restored ${imported.results.length} result${imported.results.length !== 1 ? 's' : ''} from ${file.name}.`
+      });
+    } catch (error) {
+      toast({
+        title: '🎲 Import Failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card className={`bg-card/50 backdrop-blur-sm border-primary/20 ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileDown className="w-5 h-5 text-primary" />
+          Export &amp; Import
+          <Badge variant="outline" className="ml-auto">
+            Schema v{RESULTS_EXPORT_VERSION}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          {FORMATS.map(({ format, label, description }) => (
+            <Button
+              key={format}
+              variant="outline"
+              size="sm"
+              onClick={() => exportAs(format)}
+              disabled={results.length === 0}
+              title={description}
+            >
+              <FileDown className="w-4 h-4" />
+              {label}
+            </Button>
+          ))}
+          <Button variant="prime" size="sm" className="ml-auto" onClick={() => fileInput.current?.click()}>
+            <FileUp className="w-4 h-4" />
+            Import JSON
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={event => {
+              const file = event.target.files?.[0];
+              event.target.value = '';
+              if (file) void importFile(file);
+            }}
+          />
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Exports the {results.length} result{results.length !== 1 ? 's' : ''} in view. Gödel numbers are written as
+          decimal strings so they survive JSON exactly.
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { DeviceSupport, InferenceDevice, InferenceDtype, ModelRuntime } from '@/types/llm';
+import { INFERENCE_DEVICES, INFERENCE_DTYPES, resolveRuntime } from '@/utils/device';
+
+interface RuntimeSelectorProps {
+  value: Partial<ModelRuntime>;
+  support: DeviceSupport | null;
+  onChange: (runtime: Partial<ModelRuntime>) => void;
+  className?: string;
+}
+
+const AUTO = 'auto';
+
+export const RuntimeSelector: React.FC<RuntimeSelectorProps> = ({ value, support, onChange, className = '' }) => {
+  const resolved = support ? resolveRuntime(value, support) : null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-3 text-sm ${className}`}>
+      <span className="text-muted-foreground">Device</span>
+      <Select
+        value={value.device ?? AUTO}
+        onValueChange={device => onChange({ ...value, device: device === AUTO ? undefined : (device as InferenceDevice) })}
+      >
+        <SelectTrigger className="w-32 h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO}>Auto</SelectItem>
+          {INFERENCE_DEVICES.map(device => (
+            <SelectItem
+              key={device.value}
+              value={device.value}
+              disabled={device.value === 'webgpu' && support !== null && !support.webgpu}
+            >
+              {device.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <span className="text-muted-foreground">Precision</span>
+      <Select
+        value={value.dtype ?? AUTO}
+        onValueChange={dtype => onChange({ ...value, dtype: dtype === AUTO ? undefined : (dtype as InferenceDtype) })}
+      >
+        <SelectTrigger className="w-28 h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO}>Auto</SelectItem>
+          {INFERENCE_DTYPES.map(dtype => (
+            <SelectItem key={dtype.value} value={dtype.value}>
+              {dtype.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {resolved && (
+        <Badge variant="outline" className="font-mono">
+          {resolved.device}/{resolved.dtype}
+        </Badge>
+      )}
+      {support && !support.webgpu && (
+        <span className="text-xs text-muted-foreground">WebGPU unavailable, running on WASM</span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { History, Trash2, Upload } from 'lucide-react';
+import { type LLMSamplingResult } from '@/types/llm';
+import { type HistoryRecord } from '@/types/history';
+import { deserializeResult } from '@/utils/result-serialization';
+import { useSamplingHistory } from '@/hooks/use-sampling-history';
+import { useToast } from '@/hooks/use-toast';
+
+interface SamplingHistoryBrowserProps {
+  loadedKeys: string[]; // Result keys already in the results view
+  onLoad: (results: LLMSamplingResult[]) => void;
+  className?: string;
+}
+
+const ALL_MODELS = '__all__';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Local midnight of a yyyy-mm-dd date input value
+ */
+const parseDay = (value: string): number | undefined =>
+  value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+
+export const SamplingHistoryBrowser: React.FC<SamplingHistoryBrowserProps> = ({
+  loadedKeys,
+  onLoad,
+  className = ''
+}) => {
+  const [model, setModel] = useState(ALL_MODELS);
+  const [tape, setTape] = useState('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const toStart = parseDay(toDay);
+  const { history, records, models, error } = useSamplingHistory({
+    model: model === ALL_MODELS ? undefined : model,
+    tape: tape || undefined,
+    from: parseDay(fromDay),
+    to: toStart === undefined ? undefined : toStart + DAY_MS - 1
+  });
+  const { toast } = useToast();
+
+  const load = (selection: HistoryRecord[]) => {
+    const fresh = selection.filter(record => !loadedKeys.includes(record.id));
+    onLoad(fresh.map(record => deserializeResult(record.result)));
+    toast({
+      title: '📜 History Loaded',
+      description: `Added ${fresh.length} stored result${fresh.length !== 1 ? 's' : ''} to the comparison views.`
+    });
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (reason) {
+      toast({
+        title: '🎲 History Update Failed',
+        description: reason instanceof Error ? reason.message : 'Unknown error occurred',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const unloaded = records.filter(record => !loadedKeys.includes(record.id));
+
+  return (
+    <Card className={`bg-card/50 backdrop-blur-sm border-primary/20 ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          Sampling History
+          <Badge variant="outline" className="ml-auto">
+            {records.length} stored
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+          <Select value={model} onValueChange={setModel}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_MODELS}>All models</SelectItem>
+              {models.map(id => (
+                <SelectItem key={id} value={id}>{id}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input value={tape} onChange={event => setTape(event.target.value)} placeholder="Tape contains..." />
+          <Input type="date" value={fromDay} onChange={event => setFromDay(event.target.value)} aria-label="From date" />
+          <Input type="date" value={toDay} onChange={event => setToDay(event.target.value)} aria-label="To date" />
+        </div>
+
+        {error && <div className="text-sm text-destructive">{error}</div>}
+
+        <div className="flex items-center gap-2">
+          <Button variant="prime" size="sm" onClick={() => load(unloaded)} disabled={unloaded.length === 0}>
+            <Upload className="w-4 h-4" />
+            Load {unloaded.length} Into Comparison
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            onClick={() => void run(() => history.clear())}
+            disabled={records.length === 0}
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear History
+          </Button>
+        </div>
+
+        {/* Records */}
+        {records.length > 0 ? (
+          <div className="max-h-72 overflow-y-auto rounded-lg border border-border/50">
+            {records.map(record => {
+              const isLoaded = loadedKeys.includes(record.id);
+              return (
+                <div key={record.id} className="flex items-center gap-3 px-3 py-2 text-sm odd:bg-muted/20">
+                  <span className="w-40 text-xs text-muted-foreground">
+                    {new Date(record.timestamp).toLocaleString()}
+                  </span>
+                  <span className="font-mono text-xs">{record.model}</span>
+                  <Badge variant="outline" className="text-xs">
+                    {record.device}/{record.dtype}
+                  </Badge>
+                  <span className="flex-1 truncate" title={record.tape}>{record.tape}</span>
+                  <Badge variant="outline" className="border-prime-2 text-prime-2 font-mono">
+                    🎩 {record.result.universalAnchor.prime2Activation.toFixed(4)}
+                  </Badge>
+                  <Button variant="ghost" size="sm" onClick={() => load([record])} disabled={isLoaded}>
+                    {isLoaded ? 'Loaded' : 'Load'}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => void run(() => history.remove(record.id))}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">
+            No stored results match. Every sample is saved here automatically.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { type LLMSamplingResult } from '@/types/llm';
+
+interface SemanticDriftChartProps {
+  results: LLMSamplingResult[];
+  className?: string;
+}
+
+const SERIES_COLORS = ['--prime-2', '--prime-3', '--prime-5', '--prime-7', '--prime-11', '--prime-13'];
+
+/**
+ * Chart key for a model id; CSS variable names cannot contain '/' or '.'
+ */
+const seriesKey = (model: string) => model.replace(/[^a-zA-Z0-9-]/g, '-');
+
+/**
+ * Tooltip label for a point's timestamp, precise to the millisecond
+ */
+const formatTime = (timestamp: unknown) =>
+  typeof timestamp === 'number'
+    ? `${new Date(timestamp).toLocaleTimeString()}.${String(timestamp % 1000).padStart(3, '0')}`
+    : '';
+
+export const SemanticDriftChart: React.FC<SemanticDriftChartProps> = ({ results, className = '' }) => {
+  const { data, config, notComparable } = useMemo(() => {
+    const models = Array.from(new Set(results.map(r => r.tokenization.model)));
+    const config: ChartConfig = Object.fromEntries(
+      models.map((model, index) => [
+        seriesKey(model),
+        { label: model.split('/')[1] ?? model, color: `hsl(var(${SERIES_COLORS[index % SERIES_COLORS.length]}))` }
+      ])
+    );
+
+    // Only samples with a comparable reference carry a meaningful drift
+    const data = results
+      .filter(r => r.universalAnchor.driftReference !== null && r.universalAnchor.semanticDrift !== null)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .map(r => ({
+        // The full timestamp, so samples within one second keep their own points
+        time: r.timestamp,
+        [seriesKey(r.tokenization.model)]: r.universalAnchor.semanticDrift
+      }));
+    const notComparable = results.filter(
+      r => r.universalAnchor.driftReference !== null && r.universalAnchor.semanticDrift === null
+    ).length;
+
+    return { data, config, notComparable };
+  }, [results]);
+
+  const notComparableNote = notComparable > 0 && (
+    <div className="text-xs text-muted-foreground">
+      {notComparable} sample{notComparable !== 1 ? 's are' : ' is'} not comparable with {notComparable !== 1 ? 'their' : 'its'} reference:
+      🎩's emoji or meaning changed, or a tape lacks it.
+    </div>
+  );
+
+  if (data.length === 0) {
+    return (
+      <div className={`space-y-1 ${className}`}>
+        <div className="text-sm text-muted-foreground">
+          Drift appears once a model is sampled again, or after choosing a baseline model.
+        </div>
+        {notComparableNote}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <ChartContainer config={config} className="aspect-[3/1] w-full">
+        <LineChart data={data} margin={{ top: 10, right: 20, bottom: 10, left: 10 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="time" tickFormatter={(value: number) => new Date(value).toLocaleTimeString()} />
+          <YAxis domain={[0, 'auto']} tickFormatter={(value: number) => value.toFixed(3)} />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(_, payload) => formatTime(payload?.[0]?.payload?.time)} />}
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {Object.keys(config).map(key => (
+            <Line key={key} dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={2} connectNulls dot />
+          ))}
+        </LineChart>
+      </ChartContainer>
+      {notComparableNote}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import type { DecoderAnalysis } from '@/types/llm';
+
+interface SurprisalStripProps {
+  analysis: DecoderAnalysis;
+  className?: string;
+}
+
+/**
+ * Each emoji shaded by how surprised a causal LM was to see it, in bits
+ */
+export const SurprisalStrip: React.FC<SurprisalStripProps> = ({ analysis, className = '' }) => {
+  const maxSurprisal = Math.max(...analysis.emojiSurprisal.map(e => e.surprisal), 1);
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <div className="flex items-center gap-4 text-xs text-muted-foreground">
+        <span>Surprisal per emoji (bits)</span>
+        <span>
+          Mean: <span className="font-mono">{analysis.meanSurprisal.toFixed(2)}</span> bits/token
+        </span>
+        <span>
+          Perplexity: <span className="font-mono">{analysis.perplexity.toFixed(2)}</span>
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {analysis.emojiSurprisal.map(entry => (
+          <div
+            key={entry.offset}
+            className="flex flex-col items-center px-1.5 py-1 rounded border border-border/30"
+            style={{ backgroundColor: `hsl(var(--prime-23) / ${(entry.surprisal / maxSurprisal) * 0.6})` }}
+            title={`${entry.tokenCount} token${entry.tokenCount !== 1 ? 's' : ''}, ${entry.surprisal.toFixed(2)} bits`}
+          >
+            <span className="text-lg">{entry.emoji}</span>
+            <span className="font-mono text-[10px]">{entry.surprisal.toFixed(1)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
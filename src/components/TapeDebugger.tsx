@@ -0,0 +1,176 @@
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Bug, FastForward, RotateCcw, StepBack, StepForward } from 'lucide-react';
+import { EmojiTapeDisplay } from '@/components/EmojiTapeDisplay';
+import { EMOJI_BLOCK_TAPE, type TapeGrapheme } from '@/types/llm';
+import { type TapeMachineState, type TapeTraceEntry } from '@/types/tape-machine';
+import { TapeMachine } from '@/utils/tape-machine';
+import { usePrimeAlphabet } from '@/hooks/use-prime-alphabet';
+
+interface TapeDebuggerProps {
+  tape?: string;
+  showPrimeMapping?: boolean;
+  className?: string;
+}
+
+export const TapeDebugger: React.FC<TapeDebuggerProps> = ({
+  tape = EMOJI_BLOCK_TAPE,
+  showPrimeMapping = true,
+  className = ''
+}) => {
+  const { alphabet } = usePrimeAlphabet();
+  const machine = useMemo(() => new TapeMachine(tape, { alphabet: alphabet.primes }), [tape, alphabet]);
+  const [state, setState] = useState<TapeMachineState>(() => machine.state);
+  const [trace, setTrace] = useState<TapeTraceEntry[]>([]);
+  const [breakpoints, setBreakpoints] = useState<number[]>([]);
+
+  const sync = useCallback(() => {
+    setState(machine.state);
+    setTrace(machine.trace);
+  }, [machine]);
+
+  // A new tape or alphabet means a new machine; drop stale state and breakpoints
+  useEffect(() => {
+    sync();
+    setBreakpoints([]);
+  }, [sync]);
+
+  const toggleBreakpoint = useCallback((grapheme: TapeGrapheme) => {
+    setBreakpoints(prev =>
+      prev.includes(grapheme.offset)
+        ? prev.filter(offset => offset !== grapheme.offset)
+        : [...prev, grapheme.offset]
+    );
+  }, []);
+
+  const runToBreakpoint = () => {
+    const addresses = new Set(
+      machine.program.instructions
+        .filter(instruction => breakpoints.includes(instruction.offset))
+        .map(instruction => instruction.address)
+    );
+    machine.runToBreakpoint(addresses);
+    sync();
+  };
+
+  const current = state.halted ? null : machine.program.instructions[state.pc] ?? null;
+  const canStepBack = state.steps > 0;
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <EmojiTapeDisplay
+        tape={tape}
+        showPrimeMapping={showPrimeMapping}
+        highlight={current ? [current.offset] : []}
+        breakpoints={breakpoints}
+        onEmojiClick={toggleBreakpoint}
+      />
+
+      <Card className="bg-card/50 backdrop-blur-sm border-primary/20">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bug className="w-5 h-5 text-primary" />
+            Tape Debugger
+            <Badge variant="outline" className="ml-auto">
+              Step {state.steps}
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="text-sm text-muted-foreground">
+            Click an emoji on the tape to toggle a breakpoint.
+          </div>
+
+          {/* Controls */}
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => { machine.stepBack(); sync(); }} disabled={!canStepBack}>
+              <StepBack className="w-4 h-4" />
+              Step Back
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => { machine.step(); sync(); }} disabled={state.halted}>
+              <StepForward className="w-4 h-4" />
+              Step
+            </Button>
+            <Button variant="prime" size="sm" onClick={runToBreakpoint} disabled={state.halted}>
+              <FastForward className="w-4 h-4" />
+              {breakpoints.length > 0 ? 'Run to Breakpoint' : 'Run'}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => { machine.reset(); sync(); }} disabled={!canStepBack}>
+              <RotateCcw className="w-4 h-4" />
+              Reset
+            </Button>
+          </div>
+
+          {/* Current instruction */}
+          <div className="p-3 rounded-lg bg-muted/30 text-sm">
+            {current ? (
+              <div className="flex items-center gap-3">
+                <span className="text-2xl">{current.emoji}</span>
+                <span className="font-mono text-primary">{current.opcode}</span>
+                <span className="text-muted-foreground">
+                  Segment {current.segmentIndex + 1}, position {current.position + 1} (address {current.address})
+                </span>
+              </div>
+            ) : state.error ? (
+              <div className="text-destructive">
+                <span className="font-mono">{state.error.code}</span>: {state.error.message}
+              </div>
+            ) : (
+              <div className="text-muted-foreground">🚀 Halted after {state.steps} steps</div>
+            )}
+          </div>
+
+          {/* Machine state */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="text-muted-foreground">Stack:</span>
+              <div className="font-mono">[{state.stack.join(', ')}]</div>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Registers:</span>
+              <div className="font-mono">
+                acc={state.registers.acc} ptr={state.registers.ptr} flag={state.registers.flag ? 1 : 0}
+              </div>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Output:</span>
+              <div className="font-mono">[{state.output.join(', ')}]</div>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Cycles:</span>
+              <div className="font-mono">{state.cycles}</div>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Memory:</span>
+              <div className="font-mono">[{state.memory.join(', ')}]</div>
+            </div>
+            <div>
+              <span className="text-muted-foreground">Call Stack:</span>
+              <div className="font-mono">[{state.callStack.join(', ')}]</div>
+            </div>
+          </div>
+
+          {/* Execution trace */}
+          {trace.length > 0 && (
+            <div className="max-h-48 overflow-y-auto rounded-lg border border-border/50">
+              {trace.map((entry) => (
+                <div
+                  key={entry.step}
+                  className="flex items-center gap-3 px-3 py-1 text-xs font-mono odd:bg-muted/20"
+                >
+                  <span className="w-8 text-muted-foreground">#{entry.step}</span>
+                  <span>{entry.instruction.emoji}</span>
+                  <span className="w-20 text-primary">{entry.instruction.opcode}</span>
+                  <span className="flex-1">[{entry.state.stack.join(', ')}]</span>
+                  <span className="text-muted-foreground">acc={entry.state.registers.acc}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
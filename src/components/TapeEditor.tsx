@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { PencilRuler, RotateCcw, Send, Trash2, Undo2 } from 'lucide-react';
+import { EMOJI_BLOCK_TAPE } from '@/types/llm';
+import { SEGMENT_SEPARATOR, splitGraphemes, validateTape } from '@/utils/tape-parser';
+import { GODEL_SCHEMES, formatGodelEstimate, formatGodelScientific, verifyGodelRoundTrip } from '@/utils/godel';
+import { usePrimeAlphabet } from '@/hooks/use-prime-alphabet';
+
+interface TapeEditorProps {
+  tape?: string; // The tape currently in use; the editor starts from it
+  onApply: (tape: string) => void;
+  className?: string;
+}
+
+export const TapeEditor: React.FC<TapeEditorProps> = ({
+  tape = EMOJI_BLOCK_TAPE,
+  onApply,
+  className = ''
+}) => {
+  const [symbols, setSymbols] = useState<string[]>(() => splitGraphemes(tape));
+  const [selected, setSelected] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const { alphabet } = usePrimeAlphabet();
+
+  // Applying elsewhere (or a reset) replaces the draft
+  useEffect(() => {
+    setSymbols(splitGraphemes(tape));
+    setSelected(null);
+  }, [tape]);
+
+  const draft = symbols.join('');
+  const validation = useMemo(() => validateTape(draft, alphabet.primes), [draft, alphabet]);
+  const unknownOffsets = new Set(validation.unknown.map(g => g.offset));
+  const roundTrip = useMemo(() => verifyGodelRoundTrip(draft, alphabet.primes), [draft, alphabet]);
+
+  // UTF-16 offset of each symbol, to match against validation results
+  const offsets = symbols.reduce<number[]>(
+    (acc, symbol, index) => [...acc, index === 0 ? 0 : acc[index - 1] + symbols[index - 1].length],
+    []
+  );
+
+  const insert = (symbol: string) => {
+    const at = selected === null ? symbols.length : selected + 1;
+    setSymbols(prev => [...prev.slice(0, at), symbol, ...prev.slice(at)]);
+    setSelected(at);
+  };
+
+  const removeSelected = () => {
+    if (selected === null) return;
+    setSymbols(prev => prev.filter((_, index) => index !== selected));
+    setSelected(selected > 0 ? selected - 1 : null);
+  };
+
+  const move = (from: number, to: number) => {
+    if (from === to) return;
+    setSymbols(prev => {
+      const next = [...prev];
+      const [symbol] = next.splice(from, 1);
+      next.splice(to, 0, symbol);
+      return next;
+    });
+    setSelected(to);
+  };
+
+  return (
+    <Card className={`bg-card/50 backdrop-blur-sm border-primary/20 ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PencilRuler className="w-5 h-5 text-primary" />
+          Tape Editor
+          <Badge variant="outline" className="ml-auto" title={`${GODEL_SCHEMES.positional.label}: ${roundTrip.godelNumber.toString()}`}>
+            Gödel ({GODEL_SCHEMES.positional.label}): {formatGodelScientific(roundTrip.godelNumber)}
+          </Badge>
+          <Badge variant="outline" title={GODEL_SCHEMES.plain.description}>
+            {GODEL_SCHEMES.plain.label}: {formatGodelEstimate('plain', draft, undefined, alphabet.primes)}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Palette */}
+        <div className="flex flex-wrap items-center gap-2">
+          {alphabet.primes.map(primeInfo => (
+            <button
+              key={primeInfo.prime}
+              onClick={() => insert(primeInfo.emoji)}
+              title={`${primeInfo.meaning} (Prime: ${primeInfo.prime})`}
+              className="px-2 py-1 rounded-md border border-border text-xl transition-all duration-200 hover:border-primary/50 hover:bg-muted/20"
+            >
+              {primeInfo.emoji}
+            </button>
+          ))}
+          <button
+            onClick={() => insert(SEGMENT_SEPARATOR)}
+            title="Segment separator"
+            className="px-3 py-1 rounded-md border border-border text-xl font-mono transition-all duration-200 hover:border-primary/50 hover:bg-muted/20"
+          >
+            {SEGMENT_SEPARATOR}
+          </button>
+        </div>
+
+        <div className="text-sm text-muted-foreground">
+          Palette symbols go after the selected one. Drag to reorder.
+        </div>
+
+        {/* Draft */}
+        <div className="flex flex-wrap items-center gap-1 p-3 min-h-14 rounded-lg bg-muted/30">
+          {symbols.map((symbol, index) => {
+            const isSeparator = symbol === SEGMENT_SEPARATOR;
+            const isUnknown = unknownOffsets.has(offsets[index]);
+            return (
+              <span
+                key={`${index}-${symbol}`}
+                draggable
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={event => event.preventDefault()}
+                onDrop={() => {
+                  if (dragIndex !== null) move(dragIndex, index);
+                  setDragIndex(null);
+                }}
+                onDragEnd={() => setDragIndex(null)}
+                onClick={() => setSelected(index === selected ? null : index)}
+                title={isUnknown ? `Not in ${alphabet.name}` : undefined}
+                className={`cursor-grab select-none rounded-md border px-1 transition-all duration-200 ${
+                  isSeparator ? 'text-xl font-mono text-muted-foreground' : 'text-2xl'
+                } ${
+                  index === selected
+                    ? 'border-primary bg-primary/10'
+                    : isUnknown
+                      ? 'border-destructive bg-destructive/10'
+                      : 'border-transparent hover:border-primary/50'
+                } ${index === dragIndex ? 'opacity-40' : ''}`}
+              >
+                {symbol}
+              </span>
+            );
+          })}
+          {symbols.length === 0 && <span className="text-sm text-muted-foreground">Empty tape</span>}
+        </div>
+
+        <Input
+          value={draft}
+          onChange={event => {
+            setSymbols(splitGraphemes(event.target.value));
+            setSelected(null);
+          }}
+          className="font-mono"
+          aria-label="Tape text"
+        />
+
+        {/* Validation */}
+        {!validation.valid && (
+          <div className="p-3 rounded-lg bg-destructive/10 border border-destructive/30 text-sm space-y-1">
+            {validation.unknown.length > 0 && (
+              <div>
+                🎲 Not in {alphabet.name}: {Array.from(new Set(validation.unknown.map(g => g.emoji))).join(' ')}
+              </div>
+            )}
+            {validation.emptySegments.length > 0 && (
+              <div>
+                🎲 Empty segment{validation.emptySegments.length !== 1 ? 's' : ''}:{' '}
+                {validation.emptySegments.map(index => index + 1).join(', ')}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span>Length: <span className="font-mono">{symbols.filter(s => s !== SEGMENT_SEPARATOR).length}</span></span>
+          <span>Segments: <span className="font-mono">{symbols.filter(s => s === SEGMENT_SEPARATOR).length + 1}</span></span>
+          <span>Round trip: <span className="font-mono">{roundTrip.matches ? '✓' : '✗'}</span></span>
+        </div>
+
+        {/* Controls */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={removeSelected} disabled={selected === null}>
+            <Trash2 className="w-4 h-4" />
+            Remove
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setSymbols(splitGraphemes(tape))} disabled={draft === tape}>
+            <Undo2 className="w-4 h-4" />
+            Revert
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setSymbols(splitGraphemes(EMOJI_BLOCK_TAPE))}>
+            <RotateCcw className="w-4 h-4" />
+            Default Tape
+          </Button>
+          <Button
+            variant="prime"
+            size="sm"
+            className="ml-auto"
+            onClick={() => onApply(draft)}
+            disabled={!validation.valid || draft === tape}
+          >
+            <Send className="w-4 h-4" />
+            Use for Sampling
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,12 @@
+import * as React from "react"
+
+import type { ModelRegistryEntry } from "@/types/llm"
+import { modelRegistry } from "@/utils/model-registry"
+
+export function useModelRegistry() {
+  const [entries, setEntries] = React.useState<ModelRegistryEntry[]>(() => modelRegistry.list())
+
+  React.useEffect(() => modelRegistry.subscribe(setEntries), [])
+
+  return { registry: modelRegistry, entries }
+}
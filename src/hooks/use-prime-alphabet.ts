@@ -0,0 +1,20 @@
+import * as React from "react"
+
+import type { PrimeAlphabet } from "@/types/llm"
+import { primeAlphabets } from "@/utils/prime-alphabet"
+
+export function usePrimeAlphabet() {
+  const [alphabets, setAlphabets] = React.useState<PrimeAlphabet[]>(() => primeAlphabets.list())
+  const [alphabet, setAlphabet] = React.useState<PrimeAlphabet>(() => primeAlphabets.active)
+
+  React.useEffect(
+    () =>
+      primeAlphabets.subscribe((next, active) => {
+        setAlphabets(next)
+        setAlphabet(active)
+      }),
+    []
+  )
+
+  return { registry: primeAlphabets, alphabets, alphabet }
+}
@@ -0,0 +1,11 @@
+import * as React from "react"
+
+import { runtimePreferences } from "@/utils/runtime-preferences"
+
+export function useRuntimePreferences() {
+  const [runtimes, setRuntimes] = React.useState(() => runtimePreferences.all())
+
+  React.useEffect(() => runtimePreferences.subscribe(setRuntimes), [])
+
+  return { preferences: runtimePreferences, runtimes }
+}
@@ -0,0 +1,40 @@
+import * as React from "react"
+
+import type { HistoryFilter, HistoryRecord } from "@/types/history"
+import { samplingHistory } from "@/utils/sampling-history"
+
+/**
+ * Stored sampling results matching `filter`, refreshed whenever the store changes
+ */
+export function useSamplingHistory(filter: HistoryFilter) {
+  const [records, setRecords] = React.useState<HistoryRecord[]>([])
+  const [models, setModels] = React.useState<string[]>([])
+  const [error, setError] = React.useState<string | null>(null)
+  const { model, tape, from, to } = filter
+
+  React.useEffect(() => {
+    let active = true
+    const refresh = () => {
+      Promise.all([samplingHistory.list({ model, tape, from, to }), samplingHistory.models()]).then(
+        ([nextRecords, nextModels]) => {
+          if (!active) return
+          setRecords(nextRecords)
+          setModels(nextModels)
+          setError(null)
+        },
+        (reason) => {
+          if (active) setError(reason instanceof Error ? reason.message : String(reason))
+        }
+      )
+    }
+
+    refresh()
+    const unsubscribe = samplingHistory.subscribe(refresh)
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [model, tape, from, to])
+
+  return { history: samplingHistory, records, models, error }
+}
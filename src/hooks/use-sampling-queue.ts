@@ -0,0 +1,44 @@
+import * as React from "react"
+
+import type { SamplingJob } from "@/types/llm"
+import { emojiSampler } from "@/utils/llm-sampler-proxy"
+import { modelRegistry } from "@/utils/model-registry"
+import { SamplingQueue } from "@/utils/sampling-queue"
+
+/**
+ * Sequential sampling queue bound to the shared sampler. `onJobSettled` fires
+ * once per job when it succeeds, fails or is cancelled.
+ */
+export function useSamplingQueue(onJobSettled: (job: SamplingJob) => void) {
+  const settledRef = React.useRef(onJobSettled)
+  settledRef.current = onJobSettled
+
+  const [queue] = React.useState(
+    () =>
+      new SamplingQueue(
+        async (model, tape, options) => {
+          const entry = modelRegistry.get(model)
+          if (!entry) {
+            throw new Error(`🎯 ${model} is not in the model registry`)
+          }
+          return emojiSampler.sampleTape(model, tape, {
+            ...options,
+            task: entry.task,
+            pooling: options.pooling ?? entry.pooling,
+          })
+        },
+        { onJobSettled: (job) => settledRef.current(job) }
+      )
+  )
+  const [jobs, setJobs] = React.useState<SamplingJob[]>(() => queue.getJobs())
+
+  React.useEffect(() => {
+    const unsubscribe = queue.subscribe(setJobs)
+    return () => {
+      unsubscribe()
+      queue.cancelAll()
+    }
+  }, [queue])
+
+  return { queue, jobs }
+}
@@ -1,12 +1,18 @@
-import React from 'react';
-import { EmojiTapeDisplay } from '@/components/EmojiTapeDisplay';
+import React, { useState } from 'react';
+import { TapeDebugger } from '@/components/TapeDebugger';
+import { TapeEditor } from '@/components/TapeEditor';
+import { PrimeAlphabetEditor } from '@/components/PrimeAlphabetEditor';
 import { LLMSamplingInterface } from '@/components/LLMSamplingInterface';
+import { NextEmojiPredictor } from '@/components/NextEmojiPredictor';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Sparkles, Telescope, Atom } from 'lucide-react';
+import { EMOJI_BLOCK_TAPE } from '@/types/llm';
 
 const Index = () => {
+  const [tape, setTape] = useState(EMOJI_BLOCK_TAPE);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
       {/* Cosmic Hero Section */}
@@ -94,21 +100,31 @@ const Index = () => {
                 <div>• <strong>Hierarchy</strong>: Programs of sizes 1, 2, 3, 5, 7, ..., 19 (64-bit integers)</div>
                 <div>• <strong>Gödel Number</strong>: ∏ prime^exponent encoding for each emoji tape segment</div>
                 <div>• <strong>LLM Sampling</strong>: Tokenize + embed across BERT, GPT, DistilBERT</div>
-                <div>• <strong>Prime Mapping</strong>: Reduce embeddings to 10D, align with intrinsic primes</div>
+                <div>• <strong>Prime Mapping</strong>: Cosine similarity to each model's own embedding of the active alphabet's primes</div>
                 <div>• <strong>Solana Storage</strong>: Deploy as eBPF contracts, store in PDAs</div>
               </div>
             </div>
           </CardContent>
         </Card>
 
-        {/* Emoji Tape Display */}
-        <EmojiTapeDisplay 
+        {/* Prime Alphabet */}
+        <PrimeAlphabetEditor className="shadow-deep" />
+
+        {/* Tape Editor */}
+        <TapeEditor tape={tape} onApply={setTape} className="shadow-deep" />
+
+        {/* Emoji Tape Display & Debugger */}
+        <TapeDebugger 
+          tape={tape}
           showPrimeMapping={true}
           className="shadow-deep"
         />
 
         {/* LLM Sampling Interface */}
-        <LLMSamplingInterface className="shadow-deep" />
+        <LLMSamplingInterface tape={tape} className="shadow-deep" />
+
+        {/* Next-Emoji Prediction */}
+        <NextEmojiPredictor className="shadow-deep" />
 
         {/* Technical Details */}
         <div className="grid md:grid-cols-2 gap-6">
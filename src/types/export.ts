@@ -0,0 +1,61 @@
+// Export Types — versioned file formats for taking results out of the browser
+
+import type { ModelComparison, ModelId } from '@/types/llm';
+import type { SerializedSamplingResult } from '@/types/history';
+
+export const RESULTS_EXPORT_SCHEMA = 'emoji-tape/sampling-results';
+export const RESULTS_EXPORT_VERSION = 1;
+
+export type ExportFormat = 'json' | 'csv' | 'columnar';
+
+/**
+ * The comparison without its embedded results; `resultIds` point into the export's `results`
+ */
+export interface SerializedModelComparison extends Omit<ModelComparison, 'results'> {
+  resultIds: string[]; // `${model}|${timestamp}`
+}
+
+/**
+ * Full JSON export, version 1.
+ * - `schema` and `version` identify the format; import refuses other schemas
+ *   and versions newer than it knows.
+ * - `results` are LLMSamplingResult with every Gödel number (`godelNumber`,
+ *   `positional.godelNumber`) written as a decimal string, since JSON has no bigint.
+ * - `comparison` is the cross-model comparison shown when exporting, if any.
+ */
+export interface ResultsExport {
+  schema: typeof RESULTS_EXPORT_SCHEMA;
+  version: number;
+  exportedAt: string; // ISO 8601
+  results: SerializedSamplingResult[];
+  comparison: SerializedModelComparison | null;
+}
+
+/**
+ * One prime's activation in one result: a row of the CSV and columnar exports
+ */
+export interface PrimeMappingRow {
+  model: ModelId;
+  timestamp: number;
+  tape: string;
+  device: string;
+  dtype: string;
+  pooling: string;
+  prime: number;
+  emoji: string;
+  activation: number;
+  normalizedActivation: number;
+  rank: number;
+  godelNumber: string; // Activation-weighted Gödel number of the whole result
+}
+
+/**
+ * Column-major table of prime mapping rows, the layout Parquet and Arrow use.
+ * Every column has `rowCount` entries.
+ */
+export interface ColumnarExport {
+  schema: 'emoji-tape/prime-mappings';
+  version: number;
+  rowCount: number;
+  columns: { [K in keyof PrimeMappingRow]: PrimeMappingRow[K][] };
+}
@@ -0,0 +1,35 @@
+// Sampling History Types — results as stored outside memory
+
+import type { GodelEncoding, InferenceDevice, InferenceDtype, LLMSamplingResult, ModelId } from '@/types/llm';
+
+/**
+ * GodelEncoding with its bigints as decimal strings, which JSON and every storage layer accept
+ */
+export interface SerializedGodelEncoding extends Omit<GodelEncoding, 'godelNumber' | 'positional'> {
+  godelNumber: string;
+  positional: {
+    godelNumber: string;
+    roundTrip: boolean;
+  };
+}
+
+export interface SerializedSamplingResult extends Omit<LLMSamplingResult, 'godelEncoding'> {
+  godelEncoding: SerializedGodelEncoding;
+}
+
+export interface HistoryRecord {
+  id: string; // `${model}|${timestamp}`
+  model: ModelId;
+  tape: string;
+  device: InferenceDevice;
+  dtype: InferenceDtype;
+  timestamp: number;
+  result: SerializedSamplingResult;
+}
+
+export interface HistoryFilter {
+  model?: ModelId;
+  tape?: string; // Substring match
+  from?: number; // Inclusive timestamps
+  to?: number;
+}
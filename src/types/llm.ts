@@ -20,8 +20,39 @@ export const INTRINSIC_PRIMES: EmojiPrimeMapping[] = [
   { emoji: '🪐', prime: 29, meaning: 'System', vibe: 'Phase control' }
 ];
 
+/**
+ * A named set of emoji→prime pairs. The built-in alphabet is INTRINSIC_PRIMES;
+ * custom ones extend it with the next primes (31, 37, ...).
+ */
+export interface PrimeAlphabet {
+  id: string;
+  name: string;
+  primes: EmojiPrimeMapping[];
+  builtin: boolean;
+}
+
 export const EMOJI_BLOCK_TAPE = '🪐🎩🔢🎲🎶🎷📜|🪐🎷🧬🎲📜|🪐🎶🔢🎯🎲📜🚀';
 
+export interface TapeGrapheme {
+  emoji: string;
+  segmentIndex: number;
+  position: number; // Index within its segment
+  offset: number; // UTF-16 offset into the full tape
+}
+
+export interface TapeSegment {
+  index: number;
+  offset: number;
+  text: string;
+  graphemes: TapeGrapheme[];
+}
+
+export interface TapeValidation {
+  unknown: TapeGrapheme[]; // Emojis outside the prime alphabet
+  emptySegments: number[];
+  valid: boolean;
+}
+
 export interface TokenizedTape {
   model: string;
   tokens: number[];
@@ -30,6 +61,7 @@ export interface TokenizedTape {
     sequenceLength: number;
     vocabSize: number;
     unknownTokens: number;
+    byteFallbackTokens: number;
   };
 }
 
@@ -48,9 +80,84 @@ export interface LLMEmbeddings {
     totalLayers: number;
     hiddenSize: number;
     processingTime: number;
+    device: InferenceDevice; // Backend that produced these timings
+    dtype: InferenceDtype;
+    pooling: PoolingStrategy;
+    readout: 'hidden-state' | 'logits'; // Decoders exported without hidden states are read from their logits
   };
 }
 
+export type InferenceDevice = 'webgpu' | 'wasm';
+
+export type InferenceDtype = 'fp32' | 'fp16' | 'q8';
+
+export interface ModelRuntime {
+  device: InferenceDevice;
+  dtype: InferenceDtype;
+}
+
+export interface DeviceSupport {
+  webgpu: boolean;
+  shaderF16: boolean; // WebGPU adapter can run fp16 weights
+}
+
+export interface TokenEmbedding {
+  tokenIndex: number; // Position in the model input, special tokens included
+  token: string;
+  graphemeOffset: number | null; // Tape offset of the emoji this token belongs to; null for special and separator tokens
+  pooled: boolean; // Whether the tape's pooling strategy reads this position
+  embedding: number[]; // Same readout space as pooledEmbedding, before normalization
+}
+
+/**
+ * Token-level readout of a tape, the `pooling: 'none'` counterpart of LLMEmbeddings
+ */
+export interface TokenEmbeddings {
+  model: string;
+  pooling: PoolingStrategy; // Strategy that decides which tokens are pooled
+  readout: LLMEmbeddings['metadata']['readout'];
+  tokens: TokenEmbedding[];
+}
+
+export interface EmojiAttribution {
+  emoji: string;
+  offset: number; // Tape offset, as in TapeGrapheme
+  segmentIndex: number;
+  tokenCount: number;
+  contributions: Record<number, number>; // Prime → share of that prime's activation
+}
+
+export interface EmojiEmbedding {
+  emoji: string;
+  offset: number; // Tape offset, as in TapeGrapheme
+  segmentIndex: number;
+  embedding: number[]; // Mean readout of the emoji's own tokens, unit-normalized like pooledEmbedding
+}
+
+export interface AttentionLayer {
+  layerIndex: number;
+  heads: number[][][]; // [head][query emoji][key emoji]
+  mean: number[][]; // Averaged over heads
+  crossSegmentShare: number; // Share of emoji-to-emoji attention that crosses a segment boundary
+}
+
+/**
+ * Attention between the tape's emojis. Token rows are averaged per query emoji
+ * and token columns summed per key emoji; special and separator tokens are left out.
+ */
+export interface TapeAttention {
+  model: string;
+  emojis: TapeGrapheme[];
+  layers: AttentionLayer[];
+}
+
+export interface PrimeAnchor {
+  prime: number;
+  emoji: string;
+  text: string; // What the model embedded: emoji plus meaning
+  embedding: number[];
+}
+
 export interface PrimeMappedEmbedding {
   prime: number;
   emoji: string;
@@ -59,10 +166,17 @@ export interface PrimeMappedEmbedding {
   rank: number;
 }
 
+export type GodelSchemeName = 'plain' | 'activation-weighted' | 'positional';
+
 export interface GodelEncoding {
   tapeSegment: string;
+  scheme: GodelSchemeName; // Scheme that produced godelNumber
   godelNumber: bigint;
   primeMappings: PrimeMappedEmbedding[];
+  positional: {
+    godelNumber: bigint; // ∏ p_i^code(emoji_i), order-preserving
+    roundTrip: boolean;
+  };
   hierarchy: {
     size: number;
     program: string;
@@ -70,22 +184,145 @@ export interface GodelEncoding {
   };
 }
 
+export interface GodelDecoding {
+  tape: string;
+  exact: boolean; // Number factored cleanly into valid positional codes
+  length: number;
+}
+
 export interface LLMSamplingResult {
   timestamp: number;
   tape: string;
+  alphabet: EmojiPrimeMapping[]; // Alphabet the tape was mapped and encoded with
   tokenization: TokenizedTape;
   embeddings: LLMEmbeddings;
+  primeAnchors: PrimeAnchor[];
+  primeEmojiEmbeddings: PrimeAnchor[]; // Each prime's emoji embedded on its own
   primeMapping: PrimeMappedEmbedding[];
   godelEncoding: GodelEncoding;
+  decoder: DecoderAnalysis | null; // Only for causal language models
+  emojiAttribution: EmojiAttribution[]; // Contributions sum, with unaligned tokens, to each prime's activation
+  emojiEmbeddings: EmojiEmbedding[]; // Emojis whose tokens merged into a neighbour's are left out
+  attention: TapeAttention | null; // Null when the model export has no attention outputs
   universalAnchor: {
     prime2Activation: number; // 🎩 Creativity invariance
     consistencyScore: number;
-    semanticDrift: number;
+    semanticDrift: number | null; // Null without a reference, or when the reference is not comparable
+    driftReference: {
+      kind: 'baseline' | 'previous';
+      model: string;
+      timestamp: number;
+    } | null;
   };
 }
 
+export interface TokenLogProb {
+  tokenIndex: number; // Index into the tape tokenization
+  token: string;
+  logProb: number; // Natural log of p(token | everything before it)
+  surprisal: number; // Bits
+}
+
+export interface EmojiSurprisal {
+  emoji: string;
+  offset: number; // Code unit offset into the tape, as in TapeGrapheme
+  segmentIndex: number;
+  tokenCount: number;
+  surprisal: number; // Bits, summed over the emoji's tokens
+}
+
+export interface SegmentPerplexity {
+  segmentIndex: number;
+  tokenCount: number;
+  perplexity: number;
+}
+
+export interface DecoderAnalysis {
+  tokenLogProbs: TokenLogProb[];
+  emojiSurprisal: EmojiSurprisal[];
+  meanSurprisal: number; // Bits per token
+  perplexity: number; // Whole tape, per token
+  segmentPerplexity: SegmentPerplexity[]; // Over the tokens attributed to each segment's emojis
+}
+
+export interface NextEmojiCandidate {
+  prime: number;
+  emoji: string;
+  meaning: string;
+  logProb: number; // Natural log of p(emoji | prefix) under the full vocabulary
+  probability: number; // Renormalized over the intrinsic primes only
+}
+
+export interface NextEmojiPrediction {
+  model: ModelId;
+  prefix: string;
+  candidates: NextEmojiCandidate[]; // Most likely first, at most top-k
+  coverage: number; // Share of the model's full next-text probability that falls on the primes
+}
+
+export type SamplingPhase =
+  | 'initializing'
+  | 'tokenizing'
+  | 'embedding'
+  | 'scoring'
+  | 'anchoring'
+  | 'encoding'
+  | 'complete';
+
+export interface ModelDownloadProgress {
+  file: string; // File currently downloading, relative to the model repo
+  loaded: number; // Bytes received across every file seen so far
+  total: number;
+}
+
+export interface SamplingProgress {
+  phase: SamplingPhase;
+  progress: number; // 0–100 across the whole sampling run
+  message: string;
+  download?: ModelDownloadProgress;
+}
+
+export interface SamplingOptions {
+  signal?: AbortSignal;
+  onProgress?: (update: SamplingProgress) => void;
+  runtime?: Partial<ModelRuntime>; // Unset fields fall back to the best supported backend
+  task?: ModelTask; // Defaults to feature extraction
+  pooling?: PoolingStrategy; // Defaults to last-token for decoders, mean otherwise
+  alphabet?: EmojiPrimeMapping[]; // Defaults to INTRINSIC_PRIMES
+}
+
+/**
+ * The parts of SamplingOptions that describe what to run, as opposed to how to observe it
+ */
+export type SamplingConfig = Omit<SamplingOptions, 'signal' | 'onProgress'>;
+
+export type SamplingJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface SamplingJob {
+  id: string;
+  model: ModelId;
+  tape: string;
+  config: SamplingConfig;
+  status: SamplingJobStatus;
+  progress: SamplingProgress | null;
+  attempts: number;
+  error: string | null;
+  result: LLMSamplingResult | null;
+  createdAt: number;
+}
+
+export interface RepresentationalSimilarity {
+  models: string[];
+  labels: string[]; // Emojis indexing each model's similarity matrix
+  similarityMatrices: number[][][]; // Per model: 10×10 cosine similarity of the prime emojis
+  rsa: number[][]; // Model×model Spearman correlation of the matrices' upper triangles
+  cka: number[][]; // Model×model linear CKA of the emoji embeddings
+}
+
 export interface ModelComparison {
+  tape: string; // The input every compared result was sampled on
   models: string[];
+  alphabet: EmojiPrimeMapping[]; // Entries every compared result shares
   results: LLMSamplingResult[];
   convergenceMetrics: {
     prime2Variance: number; // Consistency of 🎩 across models
@@ -99,9 +336,37 @@ export interface ModelComparison {
   };
 }
 
-export type SupportedModels = 
-  | 'Xenova/bert-base-uncased'
-  | 'Xenova/gpt2'
-  | 'Xenova/distilbert-base-uncased'
-  | 'Xenova/all-MiniLM-L6-v2'
-  | 'Xenova/sentence-transformers-all-MiniLM-L6-v2';
\ No newline at end of file
+/**
+ * Hugging Face model id, e.g. `Xenova/bert-base-uncased`. Models are listed in the model registry.
+ */
+export type ModelId = string;
+
+export type ModelTask = 'feature-extraction' | 'text-generation';
+
+export type PoolingStrategy = 'mean' | 'cls' | 'last-token';
+
+export type TokenizerFamily = 'wordpiece' | 'bpe' | 'sentencepiece' | 'unknown';
+
+export interface ModelRegistryEntry {
+  id: ModelId;
+  label: string;
+  description: string;
+  task: ModelTask; // Encoders embed directly; decoders are sampled through their hidden states
+  pooling: PoolingStrategy;
+  layers: number | null;
+  hiddenSize: number | null;
+  tokenizerFamily: TokenizerFamily;
+  license: string;
+  builtin: boolean; // Shipped with the app rather than added at runtime
+}
+
+export interface CachedModelFile {
+  url: string;
+  size: number; // Bytes
+}
+
+export interface CachedModelInfo {
+  model: ModelId;
+  files: CachedModelFile[];
+  size: number; // Bytes across every cached file
+}
\ No newline at end of file
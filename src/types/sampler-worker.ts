@@ -0,0 +1,67 @@
+import type {
+  DecoderAnalysis,
+  DeviceSupport,
+  EmojiPrimeMapping,
+  LLMEmbeddings,
+  LLMSamplingResult,
+  NextEmojiPrediction,
+  PoolingStrategy,
+  PrimeAnchor,
+  SamplingConfig,
+  SamplingProgress,
+  ModelId,
+  TapeAttention,
+  TokenEmbeddings,
+  TokenizedTape
+} from '@/types/llm';
+
+/**
+ * Sampler calls the worker answers, keyed by request type
+ */
+export interface SamplerRequestMap {
+  init: { args: [model: ModelId, config?: SamplingConfig]; result: void };
+  release: { args: [model: ModelId]; result: void };
+  tokenize: { args: [model: ModelId, tape: string]; result: TokenizedTape };
+  embed: { args: [model: ModelId, tape: string, pooling?: PoolingStrategy]; result: LLMEmbeddings };
+  embedTokens: { args: [model: ModelId, tape: string, pooling?: PoolingStrategy]; result: TokenEmbeddings };
+  attention: { args: [model: ModelId, tape: string]; result: TapeAttention };
+  score: { args: [model: ModelId, tape: string]; result: DecoderAnalysis };
+  predict: {
+    args: [model: ModelId, prefix: string, topK?: number, alphabet?: EmojiPrimeMapping[]];
+    result: NextEmojiPrediction;
+  };
+  primeAnchors: { args: [model: ModelId, pooling?: PoolingStrategy, alphabet?: EmojiPrimeMapping[]]; result: PrimeAnchor[] };
+  primeEmojiEmbeddings: {
+    args: [model: ModelId, pooling?: PoolingStrategy, alphabet?: EmojiPrimeMapping[]];
+    result: PrimeAnchor[];
+  };
+  sample: { args: [model: ModelId, tape: string, config?: SamplingConfig]; result: LLMSamplingResult };
+  setDriftBaseline: { args: [model: ModelId | null]; result: void };
+  deviceSupport: { args: []; result: DeviceSupport };
+}
+
+export type SamplerRequestType = keyof SamplerRequestMap;
+
+export type SamplerRequest = {
+  [K in SamplerRequestType]: { id: number; type: K; args: SamplerRequestMap[K]['args'] };
+}[SamplerRequestType];
+
+/**
+ * Abort the request with the given id; the worker answers it with an error
+ */
+export interface SamplerCancelMessage {
+  type: 'cancel';
+  id: number;
+}
+
+export type SamplerWorkerInbound = SamplerRequest | SamplerCancelMessage;
+
+export interface SamplerWorkerError {
+  name: string;
+  message: string;
+}
+
+export type SamplerWorkerOutbound =
+  | { type: 'progress'; id: number; progress: SamplingProgress }
+  | { type: 'result'; id: number; result: SamplerRequestMap[SamplerRequestType]['result'] }
+  | { type: 'error'; id: number; error: SamplerWorkerError };
@@ -0,0 +1,58 @@
+// Emoji Tape Machine Types — execution model for the INTRINSIC_PRIMES opcodes
+
+export type TapeOpcode =
+  | 'INIT'     // 🎩 Initialize state or vector
+  | 'CALL'     // 🎲 Branch/call
+  | 'SWAP_MEM' // 🔢 Load/store data
+  | 'ADD'      // 🎶 Arithmetic operations
+  | 'OUTPUT'   // 🎷 Output/store
+  | 'SELF'     // 📜 Self-description
+  | 'EVOLVE'   // 🧬 LLM interaction
+  | 'COMPARE'  // 🎯 Comparison
+  | 'DEPLOY'   // 🚀 Deploy contract
+  | 'PHASE';   // 🪐 Phase control
+
+export type TapeMachineErrorCode =
+  | 'UNKNOWN_OPCODE'
+  | 'STACK_UNDERFLOW'
+  | 'CALL_DEPTH_EXCEEDED'
+  | 'STEP_LIMIT_EXCEEDED';
+
+export interface TapeInstruction {
+  address: number;
+  emoji: string;
+  prime: number;
+  opcode: TapeOpcode;
+  segmentIndex: number;
+  position: number;
+  offset: number;
+}
+
+export interface TapeMachineFault {
+  code: TapeMachineErrorCode;
+  message: string;
+  address: number | null;
+}
+
+export interface TapeMachineState {
+  pc: number;
+  stack: number[];
+  registers: {
+    acc: number;
+    ptr: number;
+    flag: boolean;
+  };
+  memory: number[];
+  callStack: number[];
+  output: number[];
+  cycles: number; // 🪐 phases entered — the autopoetic cycle count
+  steps: number;
+  halted: boolean;
+  error: TapeMachineFault | null;
+}
+
+export interface TapeTraceEntry {
+  step: number;
+  instruction: TapeInstruction;
+  state: TapeMachineState; // Machine state after the instruction ran
+}
@@ -0,0 +1,145 @@
+import {
+  type AttentionLayer,
+  type EmojiAttribution,
+  type EmojiEmbedding,
+  type PrimeAnchor,
+  type TapeGrapheme,
+  type TokenEmbedding
+} from '@/types/llm';
+import { dot, norm, normalize } from '@/utils/vector-math';
+
+/**
+ * Assign each tape token to the grapheme that introduced it. Tokenizing ever
+ * longer prefixes of the tape, the tokens that appear when a grapheme is added
+ * belong to it. Returns the grapheme offset per token, or null for tokens that
+ * only appear with separators between graphemes.
+ */
+export function alignTokensToGraphemes(
+  tape: string,
+  graphemes: TapeGrapheme[],
+  countTokens: (text: string) => number
+): (number | null)[] {
+  const aligned: (number | null)[] = [];
+
+  for (const grapheme of graphemes) {
+    const before = countTokens(tape.slice(0, grapheme.offset));
+    const through = countTokens(tape.slice(0, grapheme.offset + grapheme.emoji.length));
+    while (aligned.length < before) aligned.push(null);
+    // A boundary merge can retokenize the previous grapheme; its tokens stay where they were
+    while (aligned.length < through) aligned.push(grapheme.offset);
+  }
+
+  const total = countTokens(tape);
+  while (aligned.length < total) aligned.push(null);
+  return aligned.slice(0, total);
+}
+
+/**
+ * Split each prime's activation across the tape's emojis. With the pooled
+ * vector p̄ the mean of the pooled tokens x_t, cos(p̄, a) = Σ_t (x_t · a) / (|S| · |p̄|)
+ * for a unit anchor a, so every pooled token gets an exact additive share.
+ * Shares of tokens that belong to no emoji are left out.
+ */
+export function attributeToEmojis(
+  tokens: TokenEmbedding[],
+  graphemes: TapeGrapheme[],
+  anchors: PrimeAnchor[]
+): EmojiAttribution[] {
+  const pooledTokens = tokens.filter(token => token.pooled);
+  const pooledMean = new Array<number>(pooledTokens[0]?.embedding.length ?? 0).fill(0);
+  for (const token of pooledTokens) {
+    token.embedding.forEach((value, dim) => {
+      pooledMean[dim] += value / pooledTokens.length;
+    });
+  }
+  const scale = pooledTokens.length * (norm(pooledMean) || 1);
+
+  return graphemes.map(grapheme => {
+    const own = pooledTokens.filter(token => token.graphemeOffset === grapheme.offset);
+    const contributions: Record<number, number> = {};
+    for (const anchor of anchors) {
+      contributions[anchor.prime] = own.reduce((sum, token) => sum + dot(token.embedding, anchor.embedding), 0) / scale;
+    }
+
+    return {
+      emoji: grapheme.emoji,
+      offset: grapheme.offset,
+      segmentIndex: grapheme.segmentIndex,
+      tokenCount: tokens.filter(token => token.graphemeOffset === grapheme.offset).length,
+      contributions
+    };
+  });
+}
+
+/**
+ * Embed each emoji as the mean readout of the tokens aligned to it, normalized
+ * to unit length so it sits on the same scale as the pooled tape embedding.
+ * Pooling does not matter here: every token of the emoji counts, pooled or not.
+ */
+export function embedEmojis(tokens: TokenEmbedding[], graphemes: TapeGrapheme[]): EmojiEmbedding[] {
+  return graphemes.flatMap(grapheme => {
+    const own = tokens.filter(token => token.graphemeOffset === grapheme.offset);
+    if (own.length === 0) return [];
+
+    const embedding = new Array<number>(own[0].embedding.length).fill(0);
+    for (const token of own) {
+      token.embedding.forEach((value, dim) => {
+        embedding[dim] += value / own.length;
+      });
+    }
+    return [
+      {
+        emoji: grapheme.emoji,
+        offset: grapheme.offset,
+        segmentIndex: grapheme.segmentIndex,
+        embedding: normalize(embedding)
+      }
+    ];
+  });
+}
+
+/**
+ * Collapse one layer's token attention, [1, heads, seq, seq], to emoji-by-emoji
+ * matrices. `graphemeAt` gives each input position's grapheme index, or null.
+ */
+export function emojiAttentionLayer(
+  layerIndex: number,
+  data: ArrayLike<number>,
+  dims: number[],
+  graphemeAt: (number | null)[],
+  graphemes: TapeGrapheme[]
+): AttentionLayer {
+  const [, headCount, sequenceLength] = dims;
+  const size = graphemes.length;
+  const queryTokens = graphemes.map((_, index) => graphemeAt.filter(g => g === index).length);
+
+  const heads = Array.from({ length: headCount }, (_, head) => {
+    const matrix = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+    const base = head * sequenceLength * sequenceLength;
+    for (let query = 0; query < sequenceLength; query++) {
+      const row = graphemeAt[query];
+      if (row === null || row === undefined) continue;
+      for (let key = 0; key < sequenceLength; key++) {
+        const column = graphemeAt[key];
+        if (column === null || column === undefined) continue;
+        matrix[row][column] += data[base + query * sequenceLength + key] / queryTokens[row];
+      }
+    }
+    return matrix;
+  });
+
+  const mean = Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, column) => heads.reduce((sum, matrix) => sum + matrix[row][column], 0) / headCount)
+  );
+
+  let total = 0;
+  let crossing = 0;
+  mean.forEach((row, query) =>
+    row.forEach((value, key) => {
+      total += value;
+      if (graphemes[query].segmentIndex !== graphemes[key].segmentIndex) crossing += value;
+    })
+  );
+
+  return { layerIndex, heads, mean, crossSegmentShare: total > 0 ? crossing / total : 0 };
+}
@@ -0,0 +1,64 @@
+import type { DeviceSupport, InferenceDevice, InferenceDtype, ModelRuntime } from '@/types/llm';
+
+// Just the slice of the WebGPU API needed to probe for an adapter
+interface GPUProbe {
+  requestAdapter(): Promise<{ features: { has(feature: string): boolean } } | null>;
+}
+
+export const INFERENCE_DEVICES: { value: InferenceDevice; label: string }[] = [
+  { value: 'webgpu', label: 'WebGPU' },
+  { value: 'wasm', label: 'WASM' }
+];
+
+export const INFERENCE_DTYPES: { value: InferenceDtype; label: string }[] = [
+  { value: 'fp32', label: 'fp32' },
+  { value: 'fp16', label: 'fp16' },
+  { value: 'q8', label: 'q8' }
+];
+
+let supportPromise: Promise<DeviceSupport> | null = null;
+
+/**
+ * Probe WebGPU once. `navigator.gpu` can exist with no usable adapter,
+ * so an adapter has to be requested to know for sure.
+ */
+export function detectDeviceSupport(): Promise<DeviceSupport> {
+  supportPromise ??= (async () => {
+    const gpu = (globalThis.navigator as { gpu?: GPUProbe } | undefined)?.gpu;
+    if (!gpu) return { webgpu: false, shaderF16: false };
+
+    try {
+      const adapter = await gpu.requestAdapter();
+      return { webgpu: adapter !== null, shaderF16: adapter?.features.has('shader-f16') ?? false };
+    } catch (error) {
+      console.warn('🎲 WebGPU adapter request failed:', error);
+      return { webgpu: false, shaderF16: false };
+    }
+  })();
+  return supportPromise;
+}
+
+/**
+ * Record that WebGPU failed in practice, so later requests go straight to WASM
+ */
+export function disableWebGPU(): void {
+  supportPromise = Promise.resolve({ webgpu: false, shaderF16: false });
+}
+
+/**
+ * Turn a requested runtime into one this machine can run. WebGPU falls back
+ * to WASM, fp16 on a GPU without shader-f16 falls back to fp32, and unset
+ * dtypes use the transformers.js default for the device.
+ */
+export function resolveRuntime(requested: Partial<ModelRuntime> = {}, support: DeviceSupport): ModelRuntime {
+  const device: InferenceDevice = requested.device === 'wasm' || !support.webgpu ? 'wasm' : 'webgpu';
+  let dtype: InferenceDtype = requested.dtype ?? (device === 'webgpu' ? 'fp32' : 'q8');
+  if (device === 'webgpu' && dtype === 'fp16' && !support.shaderF16) {
+    dtype = 'fp32';
+  }
+  return { device, dtype };
+}
+
+export function sameRuntime(a: ModelRuntime, b: ModelRuntime): boolean {
+  return a.device === b.device && a.dtype === b.dtype;
+}
@@ -0,0 +1,303 @@
+import {
+  INTRINSIC_PRIMES,
+  type EmojiPrimeMapping,
+  type GodelDecoding,
+  type GodelSchemeName,
+  type PrimeMappedEmbedding
+} from '@/types/llm';
+import { SEGMENT_SEPARATOR, splitGraphemes, tapeGraphemes } from '@/utils/tape-parser';
+
+export interface GodelScheme {
+  name: GodelSchemeName;
+  label: string;
+  description: string;
+  preservesOrder: boolean;
+  encode: (tape: string, primeMappings?: PrimeMappedEmbedding[], alphabet?: EmojiPrimeMapping[]) => bigint;
+  /** log10 of the encoding, computed without building the bigint */
+  estimateLog10: (tape: string, primeMappings?: PrimeMappedEmbedding[], alphabet?: EmojiPrimeMapping[]) => number;
+  decode?: (godelNumber: bigint, alphabet?: EmojiPrimeMapping[]) => GodelDecoding;
+}
+
+// Exponent 1 marks a segment separator; emoji codes start right after it
+const SEPARATOR_CODE = 1;
+const FIRST_EMOJI_CODE = 2;
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+/**
+ * Endless sequence of primes (2, 3, 5, ...)
+ */
+export function* primeSequence(): Generator<number> {
+  const primes: number[] = [];
+  for (let candidate = 2; ; candidate++) {
+    if (primes.every(p => p * p > candidate || candidate % p !== 0)) {
+      primes.push(candidate);
+      yield candidate;
+    }
+  }
+}
+
+/**
+ * The first `count` primes
+ */
+export function firstPrimes(count: number): number[] {
+  const primes: number[] = [];
+  if (count <= 0) return primes;
+  for (const prime of primeSequence()) {
+    primes.push(prime);
+    if (primes.length === count) break;
+  }
+  return primes;
+}
+
+/**
+ * Intrinsic prime for each emoji on the tape, skipping symbols outside the alphabet
+ */
+function tapePrimes(tape: string, alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES): number[] {
+  const primeMap = new Map(alphabet.map(p => [p.emoji, p.prime]));
+  return tapeGraphemes(tape)
+    .map(({ emoji }) => primeMap.get(emoji))
+    .filter((prime): prime is number => prime !== undefined);
+}
+
+/**
+ * Exponent an activation-weighted encoding gives to a prime
+ */
+function activationExponent(prime: number, primeMappings: PrimeMappedEmbedding[] = []): number {
+  const mapping = primeMappings.find(m => m.prime === prime);
+  return mapping ? Math.max(1, Math.floor(Math.abs(mapping.normalizedActivation) * 5)) : 1;
+}
+
+/**
+ * Code of a single tape symbol in the positional scheme, or null if it has none
+ */
+function symbolCode(symbol: string, alphabet: EmojiPrimeMapping[]): number | null {
+  if (symbol === SEGMENT_SEPARATOR) return SEPARATOR_CODE;
+  const index = alphabet.findIndex(p => p.emoji === symbol);
+  return index === -1 ? null : FIRST_EMOJI_CODE + index;
+}
+
+/**
+ * Symbol for a positional code, or null if the code is out of range
+ */
+function codeSymbol(code: number, alphabet: EmojiPrimeMapping[]): string | null {
+  if (code === SEPARATOR_CODE) return SEGMENT_SEPARATOR;
+  return alphabet[code - FIRST_EMOJI_CODE]?.emoji ?? null;
+}
+
+/**
+ * Positional codes for every encodable symbol on the tape, separators included
+ */
+function positionalCodes(tape: string, alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES): number[] {
+  return splitGraphemes(tape)
+    .map(symbol => symbolCode(symbol, alphabet))
+    .filter((code): code is number => code !== null);
+}
+
+/**
+ * Plain product: ∏ prime(emoji) over the tape. Order is lost, so decoding
+ * recovers the emoji multiset in prime order.
+ */
+const plainScheme: GodelScheme = {
+  name: 'plain',
+  label: 'Plain product',
+  description: '∏ prime(emoji) — order-free multiset of the tape',
+  preservesOrder: false,
+  encode: (tape, _primeMappings, alphabet) =>
+    tapePrimes(tape, alphabet).reduce((godel, prime) => godel * BigInt(prime), BigInt(1)),
+  estimateLog10: (tape, _primeMappings, alphabet) =>
+    tapePrimes(tape, alphabet).reduce((sum, prime) => sum + Math.log10(prime), 0),
+  decode: (godelNumber, alphabet = INTRINSIC_PRIMES) => {
+    const symbols: string[] = [];
+    let remainder = godelNumber;
+
+    for (const { emoji, prime } of [...alphabet].sort((a, b) => a.prime - b.prime)) {
+      const divisor = BigInt(prime);
+      while (remainder > BigInt(0) && remainder % divisor === BigInt(0)) {
+        remainder /= divisor;
+        symbols.push(emoji);
+      }
+    }
+
+    return {
+      tape: symbols.join(''),
+      exact: remainder === BigInt(1),
+      length: symbols.length
+    };
+  }
+};
+
+/**
+ * Activation-weighted: ∏ prime(emoji)^e where e comes from the model's
+ * activation on that prime. Not invertible without the activations.
+ */
+const activationWeightedScheme: GodelScheme = {
+  name: 'activation-weighted',
+  label: 'Activation-weighted',
+  description: '∏ prime(emoji)^⌊5·|activation|⌋ — depends on the sampled model',
+  preservesOrder: false,
+  encode: (tape, primeMappings, alphabet) =>
+    tapePrimes(tape, alphabet).reduce(
+      (godel, prime) => godel * BigInt(prime) ** BigInt(activationExponent(prime, primeMappings)),
+      BigInt(1)
+    ),
+  estimateLog10: (tape, primeMappings, alphabet) =>
+    tapePrimes(tape, alphabet).reduce(
+      (sum, prime) => sum + activationExponent(prime, primeMappings) * Math.log10(prime),
+      0
+    )
+};
+
+/**
+ * Positional: ∏ p_i^code(symbol_i) over the i-th prime. Separators are
+ * encoded too so the segment structure survives decoding.
+ */
+const positionalScheme: GodelScheme = {
+  name: 'positional',
+  label: 'Positional',
+  description: '∏ pᵢ^code(symbolᵢ) — order-preserving and invertible',
+  preservesOrder: true,
+  encode: (tape, _primeMappings, alphabet) => {
+    const codes = positionalCodes(tape, alphabet);
+    const primes = firstPrimes(codes.length);
+    return codes.reduce(
+      (godel, code, index) => godel * BigInt(primes[index]) ** BigInt(code),
+      BigInt(1)
+    );
+  },
+  estimateLog10: (tape, _primeMappings, alphabet) => {
+    const codes = positionalCodes(tape, alphabet);
+    const primes = firstPrimes(codes.length);
+    return codes.reduce((sum, code, index) => sum + code * Math.log10(primes[index]), 0);
+  },
+  decode: (godelNumber, alphabet) => decodeGodel(godelNumber, alphabet)
+};
+
+export const GODEL_SCHEMES: Record<GodelSchemeName, GodelScheme> = {
+  'plain': plainScheme,
+  'activation-weighted': activationWeightedScheme,
+  'positional': positionalScheme
+};
+
+// Scheme sampling results are encoded with, and the tape card shows by default
+export const DEFAULT_GODEL_SCHEME: GodelSchemeName = 'activation-weighted';
+
+/**
+ * Encode a tape with one of the named schemes
+ */
+export function encodeGodel(
+  scheme: GodelSchemeName,
+  tape: string,
+  primeMappings?: PrimeMappedEmbedding[],
+  alphabet?: EmojiPrimeMapping[]
+): bigint {
+  return GODEL_SCHEMES[scheme].encode(tape, primeMappings, alphabet);
+}
+
+/**
+ * Factor a positional Gödel number back into an ordered tape.
+ * Decoding is exact when the number is a gap-free run of prime powers whose
+ * exponents are all valid codes.
+ */
+export function decodeGodel(godelNumber: bigint, alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES): GodelDecoding {
+  const symbols: string[] = [];
+  let remainder = godelNumber;
+  let exact = godelNumber >= BigInt(1);
+  const primes = primeSequence();
+
+  while (remainder > BigInt(1)) {
+    const prime = BigInt(primes.next().value);
+    let exponent = 0;
+    while (remainder % prime === BigInt(0)) {
+      remainder /= prime;
+      exponent++;
+    }
+
+    // A missing prime means the number was not produced by the positional scheme
+    if (exponent === 0) {
+      exact = false;
+      break;
+    }
+
+    const symbol = codeSymbol(exponent, alphabet);
+    if (symbol === null) {
+      exact = false;
+      symbols.push('�');
+    } else {
+      symbols.push(symbol);
+    }
+  }
+
+  return {
+    tape: symbols.join(''),
+    exact: exact && remainder === BigInt(1),
+    length: symbols.length
+  };
+}
+
+/**
+ * Encode then decode a tape positionally, reporting whether the original comes back unchanged
+ */
+export function verifyGodelRoundTrip(
+  tape: string,
+  alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES
+): GodelDecoding & { godelNumber: bigint; matches: boolean } {
+  const godelNumber = positionalScheme.encode(tape, undefined, alphabet);
+  const decoding = decodeGodel(godelNumber, alphabet);
+  return {
+    ...decoding,
+    godelNumber,
+    matches: decoding.exact && decoding.tape === tape
+  };
+}
+
+/**
+ * Exact log10 of a positive bigint, good to double precision
+ */
+export function godelLog10(godelNumber: bigint): number {
+  if (godelNumber <= BigInt(0)) return -Infinity;
+  const digits = godelNumber.toString();
+  const leading = Number(digits.slice(0, 15));
+  return Math.log10(leading) + digits.length - Math.min(digits.length, 15);
+}
+
+/**
+ * Format a log10 magnitude as scientific notation, e.g. 2.94×10¹²
+ */
+export function formatLog10Scientific(log10: number, fractionDigits: number = 2): string {
+  if (!Number.isFinite(log10)) return '0';
+  let exponent = Math.floor(log10);
+  let mantissa = Number((10 ** (log10 - exponent)).toFixed(fractionDigits));
+  if (mantissa >= 10) {
+    mantissa /= 10;
+    exponent += 1;
+  }
+  if (exponent < 3) return Math.round(10 ** log10).toString();
+
+  const superscript = exponent
+    .toString()
+    .split('')
+    .map(digit => SUPERSCRIPT_DIGITS[Number(digit)])
+    .join('');
+  return `${mantissa.toFixed(fractionDigits)}×10${superscript}`;
+}
+
+/**
+ * Format a tape's encoding under a scheme from its log-size estimate, without building the bigint
+ */
+export function formatGodelEstimate(
+  scheme: GodelSchemeName,
+  tape: string,
+  primeMappings?: PrimeMappedEmbedding[],
+  alphabet?: EmojiPrimeMapping[],
+  fractionDigits: number = 2
+): string {
+  return formatLog10Scientific(GODEL_SCHEMES[scheme].estimateLog10(tape, primeMappings, alphabet), fractionDigits);
+}
+
+/**
+ * Format a Gödel number in scientific notation, e.g. 2.94×10¹²
+ */
+export function formatGodelScientific(godelNumber: bigint, fractionDigits: number = 2): string {
+  return formatLog10Scientific(godelLog10(godelNumber), fractionDigits);
+}
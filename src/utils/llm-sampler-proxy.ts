@@ -0,0 +1,255 @@
+import {
+  EMOJI_BLOCK_TAPE,
+  type DecoderAnalysis,
+  type DeviceSupport,
+  type EmojiPrimeMapping,
+  type GodelEncoding,
+  type LLMEmbeddings,
+  type LLMSamplingResult,
+  type NextEmojiPrediction,
+  type PrimeAnchor,
+  type PrimeMappedEmbedding,
+  type PoolingStrategy,
+  type SamplingConfig,
+  type SamplingOptions,
+  type ModelId,
+  type TapeAttention,
+  type TokenEmbeddings,
+  type TokenizedTape
+} from '@/types/llm';
+import type {
+  SamplerRequestMap,
+  SamplerRequestType,
+  SamplerWorkerInbound,
+  SamplerWorkerOutbound
+} from '@/types/sampler-worker';
+import { encodeAsGodel, mapEmbeddingsToPrimes } from '@/utils/prime-mapping';
+
+/**
+ * Signals and callbacks cannot cross into the worker; keep only the plain settings
+ */
+function samplingConfig({ runtime, task, pooling, alphabet }: SamplingOptions): SamplingConfig {
+  return { runtime, task, pooling, alphabet };
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: SamplingOptions['onProgress'];
+}
+
+/**
+ * Main-thread stand-in for LLMEmojiSampler. Model loading and inference run in
+ * a Web Worker so the UI stays responsive; the public API is the same.
+ */
+export class LLMSamplerProxy {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+
+  /**
+   * Initialize tokenizer and embedder for a specific model, reporting download progress
+   */
+  initializeModel(modelName: ModelId, options: SamplingOptions = {}): Promise<void> {
+    return this.request('init', [modelName, samplingConfig(options)], options);
+  }
+
+  /**
+   * Drop a loaded model and free its inference session
+   */
+  releaseModel(modelName: ModelId): Promise<void> {
+    return this.request('release', [modelName]);
+  }
+
+  /**
+   * Tokenize the emoji tape using the specified model
+   */
+  tokenizeTape(modelName: ModelId, tape: string = EMOJI_BLOCK_TAPE): Promise<TokenizedTape> {
+    return this.request('tokenize', [modelName, tape]);
+  }
+
+  /**
+   * Generate embeddings for the emoji tape
+   */
+  embedTape(modelName: ModelId, tape: string = EMOJI_BLOCK_TAPE, pooling?: PoolingStrategy): Promise<LLMEmbeddings> {
+    return this.request('embed', [modelName, tape, pooling]);
+  }
+
+  /**
+   * Token-level readout of the tape, aligned back to its graphemes
+   */
+  embedTokens(modelName: ModelId, tape: string = EMOJI_BLOCK_TAPE, pooling?: PoolingStrategy): Promise<TokenEmbeddings> {
+    return this.request('embedTokens', [modelName, tape, pooling]);
+  }
+
+  /**
+   * Emoji-by-emoji attention per layer and head
+   */
+  extractAttention(modelName: ModelId, tape: string = EMOJI_BLOCK_TAPE): Promise<TapeAttention> {
+    return this.request('attention', [modelName, tape]);
+  }
+
+  /**
+   * Score each tape token under a causal language model
+   */
+  scoreTape(modelName: ModelId, tape: string = EMOJI_BLOCK_TAPE): Promise<DecoderAnalysis> {
+    return this.request('score', [modelName, tape]);
+  }
+
+  /**
+   * Ask a causal language model which intrinsic prime emoji comes next after a tape prefix
+   */
+  predictNextEmoji(
+    modelName: ModelId,
+    prefix: string,
+    topK: number = 5,
+    alphabet?: EmojiPrimeMapping[]
+  ): Promise<NextEmojiPrediction> {
+    return this.request('predict', [modelName, prefix, topK, alphabet]);
+  }
+
+  /**
+   * Embed each prime's emoji and meaning with the model itself
+   */
+  getPrimeAnchors(modelName: ModelId, pooling?: PoolingStrategy, alphabet?: EmojiPrimeMapping[]): Promise<PrimeAnchor[]> {
+    return this.request('primeAnchors', [modelName, pooling, alphabet]);
+  }
+
+  /**
+   * Embed each prime's emoji on its own
+   */
+  getPrimeEmojiEmbeddings(
+    modelName: ModelId,
+    pooling?: PoolingStrategy,
+    alphabet?: EmojiPrimeMapping[]
+  ): Promise<PrimeAnchor[]> {
+    return this.request('primeEmojiEmbeddings', [modelName, pooling, alphabet]);
+  }
+
+  /**
+   * Map embeddings to intrinsic primes; pure math, so it runs on this thread
+   */
+  mapEmbeddingsToPrimes(embeddings: LLMEmbeddings, anchors: PrimeAnchor[]): PrimeMappedEmbedding[] {
+    return mapEmbeddingsToPrimes(embeddings, anchors);
+  }
+
+  /**
+   * Encode tape segment as Gödel number using prime mappings
+   */
+  encodeAsGodel(
+    tapeSegment: string,
+    primeMappings: PrimeMappedEmbedding[],
+    alphabet?: EmojiPrimeMapping[]
+  ): GodelEncoding {
+    return encodeAsGodel(tapeSegment, primeMappings, alphabet);
+  }
+
+  /**
+   * Sample the emoji tape across an LLM and return complete analysis
+   */
+  sampleTape(
+    modelName: ModelId,
+    tape: string = EMOJI_BLOCK_TAPE,
+    options: SamplingOptions = {}
+  ): Promise<LLMSamplingResult> {
+    return this.request('sample', [modelName, tape, samplingConfig(options)], options);
+  }
+
+  /**
+   * Choose the model that semantic drift is measured against
+   */
+  setDriftBaseline(modelName: ModelId | null): void {
+    void this.request('setDriftBaseline', [modelName]);
+  }
+
+  /**
+   * Which backends the worker can use; WebGPU is probed from inside the worker
+   */
+  getDeviceSupport(): Promise<DeviceSupport> {
+    return this.request('deviceSupport', []);
+  }
+
+  /**
+   * Utility: Send a request to the worker and settle once it answers.
+   * Aborting the signal rejects immediately and tells the worker to stop.
+   */
+  private request<K extends SamplerRequestType>(
+    type: K,
+    args: SamplerRequestMap[K]['args'],
+    { signal, onProgress }: SamplingOptions = {}
+  ): Promise<SamplerRequestMap[K]['result']> {
+    signal?.throwIfAborted();
+
+    const worker = this.getWorker();
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(id);
+        this.post({ type: 'cancel', id });
+        reject(signal.reason);
+      };
+
+      this.pending.set(id, {
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result as SamplerRequestMap[K]['result']);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress
+      });
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      worker.postMessage({ id, type, args } as SamplerWorkerInbound);
+    });
+  }
+
+  /**
+   * Utility: Start the worker on first use
+   */
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/llm-sampler.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<SamplerWorkerOutbound>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => this.failAll(new Error(`🚀 Sampler worker crashed: ${event.message}`));
+    }
+    return this.worker;
+  }
+
+  private post(message: SamplerWorkerInbound): void {
+    this.worker?.postMessage(message);
+  }
+
+  private handleMessage(message: SamplerWorkerOutbound): void {
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    switch (message.type) {
+      case 'progress':
+        pending.onProgress?.(message.progress);
+        break;
+      case 'result':
+        this.pending.delete(message.id);
+        pending.resolve(message.result);
+        break;
+      case 'error': {
+        this.pending.delete(message.id);
+        const error = new Error(message.error.message);
+        error.name = message.error.name;
+        pending.reject(error);
+        break;
+      }
+    }
+  }
+
+  private failAll(error: Error): void {
+    this.pending.forEach(pending => pending.reject(error));
+    this.pending.clear();
+  }
+}
+
+// Export singleton instance
+export const emojiSampler = new LLMSamplerProxy();
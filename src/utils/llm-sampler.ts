@@ -1,61 +1,212 @@
-import { pipeline, Pipeline } from '@huggingface/transformers';
+import {
+  AutoModel,
+  AutoModelForCausalLM,
+  AutoTokenizer,
+  Tensor,
+  type PreTrainedModel,
+  type PreTrainedTokenizer,
+  type ProgressInfo
+} from '@huggingface/transformers';
 import { 
   INTRINSIC_PRIMES, 
   EMOJI_BLOCK_TAPE,
   type TokenizedTape,
   type LLMEmbeddings,
+  type EmbeddingLayer,
+  type EmojiPrimeMapping,
+  type PrimeAnchor,
   type LLMSamplingResult,
   type PrimeMappedEmbedding,
   type GodelEncoding,
-  type SupportedModels
+  type ModelId,
+  type SamplingOptions,
+  type ModelRuntime,
+  type ModelTask,
+  type PoolingStrategy,
+  type DecoderAnalysis,
+  type TokenEmbedding,
+  type TokenEmbeddings,
+  type TapeAttention,
+  type NextEmojiCandidate,
+  type NextEmojiPrediction,
+  type SamplingPhase,
+  type SamplingProgress
 } from '@/types/llm';
+import { computeSemanticDrift, driftReferenceModel, findDriftReference } from '@/utils/semantic-drift';
+import { samplingHistory } from '@/utils/sampling-history';
+import { deserializeResult } from '@/utils/result-serialization';
+import { encodeAsGodel, mapEmbeddingsToPrimes } from '@/utils/prime-mapping';
+import { mean, norm, normalize } from '@/utils/vector-math';
+import { tapeGraphemes } from '@/utils/tape-parser';
+import { alignTokensToGraphemes, attributeToEmojis, embedEmojis, emojiAttentionLayer } from '@/utils/attribution';
+import { emojiSurprisal, logSoftmaxAt, perplexityFromBits, segmentPerplexity, tokenLogProbs } from '@/utils/surprisal';
+import { formatBytes } from '@/utils/model-cache';
+import { detectDeviceSupport, disableWebGPU, resolveRuntime, sameRuntime } from '@/utils/device';
+
+const SAMPLING_PHASES: Record<SamplingPhase, Omit<SamplingProgress, 'phase'>> = {
+  initializing: { progress: 0, message: '🎩 Initializing model...' },
+  tokenizing: { progress: 40, message: '🔢 Tokenizing emoji tape...' },
+  embedding: { progress: 50, message: '🧬 Generating embeddings...' },
+  scoring: { progress: 58, message: '🎲 Scoring next-token surprisal...' },
+  anchoring: { progress: 65, message: '🎯 Mapping to intrinsic primes...' },
+  encoding: { progress: 90, message: '📜 Encoding Gödel numbers...' },
+  complete: { progress: 100, message: '🚀 Complete!' }
+};
+
+const RECENT_HISTORY_LIMIT = 50; // Older samples are found in the persisted history
+
+/**
+ * Reject as soon as the signal aborts, even if the underlying promise keeps running
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  signal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
 
 export class LLMEmojiSampler {
-  private tokenizers: Map<string, any> = new Map();
-  private embedders: Map<string, any> = new Map();
+  private tokenizers: Map<string, PreTrainedTokenizer> = new Map();
+  private models: Map<string, PreTrainedModel> = new Map();
+  private tasks: Map<string, ModelTask> = new Map();
+  private primeAnchors: Map<string, number[]> = new Map(); // Keyed by model, pooling and anchor text
+  private primeEmojiEmbeddings: Map<string, number[]> = new Map();
+  private history: LLMSamplingResult[] = []; // This session's latest samples, until they reach the persisted history
+  private driftBaseline: ModelId | null = null;
+  private runtimes: Map<string, ModelRuntime> = new Map();
 
   /**
-   * Initialize tokenizer and embedder for a specific model
+   * Initialize tokenizer and embedder for a specific model.
+   * Download progress is reported within the initializing phase.
    */
-  async initializeModel(modelName: SupportedModels): Promise<void> {
-    try {
-      // For now, we'll use feature extraction which includes tokenization
-      const embedder = await pipeline('feature-extraction', modelName, {
-        device: 'webgpu', // Use WebGPU if available, fallback to CPU
+  async initializeModel(
+    modelName: ModelId,
+    { signal, onProgress, runtime, task = 'feature-extraction' }: SamplingOptions = {}
+  ): Promise<void> {
+    const support = await detectDeviceSupport();
+    const requested = resolveRuntime(runtime, support);
+    const loaded = this.runtimes.get(modelName);
+    if (loaded && sameRuntime(loaded, requested) && this.tasks.get(modelName) === task) return;
+
+    const files = new Map<string, { loaded: number; total: number }>();
+
+    // Throwing from the progress callback stops an in-flight download when cancelled
+    const progress_callback = (info: ProgressInfo) => {
+      signal?.throwIfAborted();
+      if (info.status !== 'progress') return;
+
+      files.set(info.file, { loaded: info.loaded, total: info.total });
+      const download = Array.from(files.values()).reduce(
+        (sum, file) => ({ loaded: sum.loaded + file.loaded, total: sum.total + file.total }),
+        { loaded: 0, total: 0 }
+      );
+      onProgress?.({
+        phase: 'initializing',
+        progress: SAMPLING_PHASES.tokenizing.progress * (download.total > 0 ? download.loaded / download.total : 0),
+        message: `⬇️ Downloading ${info.file} (${formatBytes(download.loaded)} of ${formatBytes(download.total)})`,
+        download: { file: info.file, ...download }
       });
-      this.embedders.set(modelName, embedder);
-      // Store the same pipeline for tokenization for simplicity
-      this.tokenizers.set(modelName, embedder);
+    };
+
+    try {
+      // Decoders need the language-model head for next-token scores
+      const ModelClass = task === 'text-generation' ? AutoModelForCausalLM : AutoModel;
+      const loadModel = (target: ModelRuntime) => {
+        const loading = ModelClass.from_pretrained(modelName, {
+          device: target.device,
+          dtype: target.dtype,
+          progress_callback,
+        });
+        // A cancelled load keeps running until its session exists; free the session then
+        return abortable(loading, signal).catch(error => {
+          if (signal?.aborted) void loading.then(model => model.dispose(), () => undefined);
+          throw error;
+        });
+      };
+
+      // An adapter can pass detection and still fail to create a session, so retry on WASM
+      let resolved = requested;
+      let model: PreTrainedModel;
+      try {
+        model = await loadModel(resolved);
+      } catch (error) {
+        if (resolved.device !== 'webgpu' || signal?.aborted) throw error;
+        console.warn(`🎲 WebGPU failed for ${modelName}, falling back to WASM:`, error);
+        disableWebGPU();
+        resolved = resolveRuntime(runtime, await detectDeviceSupport());
+        model = await loadModel(resolved);
+      }
+
+      let tokenizer: PreTrainedTokenizer;
+      try {
+        signal?.throwIfAborted();
+        tokenizer = await abortable(AutoTokenizer.from_pretrained(modelName, { progress_callback }), signal);
+      } catch (error) {
+        await model.dispose();
+        throw error;
+      }
+
+      // Only register the model once every part has loaded, replacing any other runtime
+      await this.releaseModel(modelName);
+      this.models.set(modelName, model);
+      this.tokenizers.set(modelName, tokenizer);
+      this.runtimes.set(modelName, resolved);
+      this.tasks.set(modelName, task);
+
+      // Anchors embedded on another device or dtype would skew the prime mapping
+      if (loaded && !sameRuntime(loaded, resolved)) {
+        this.clearAnchors(modelName);
+      }
       
-      console.log(`🎩 Initialized model: ${modelName}`);
+      console.log(`🎩 Initialized model: ${modelName} (${resolved.device}/${resolved.dtype})`);
     } catch (error) {
       console.error(`🚀 Failed to initialize model ${modelName}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Drop a loaded model and free its inference session. Anchors stay cached,
+   * since the same weights produce the same anchors when the model is reloaded.
+   */
+  async releaseModel(modelName: ModelId): Promise<void> {
+    const model = this.models.get(modelName);
+    this.models.delete(modelName);
+    this.tokenizers.delete(modelName);
+    this.runtimes.delete(modelName);
+    this.tasks.delete(modelName);
+    await model?.dispose();
+  }
+
   /**
    * Tokenize the emoji tape using the specified model
    */
-  async tokenizeTape(modelName: SupportedModels, tape: string = EMOJI_BLOCK_TAPE): Promise<TokenizedTape> {
+  async tokenizeTape(modelName: ModelId, tape: string = EMOJI_BLOCK_TAPE): Promise<TokenizedTape> {
     const tokenizer = this.tokenizers.get(modelName);
     if (!tokenizer) {
       throw new Error(`🎲 Model ${modelName} not initialized. Call initializeModel first.`);
     }
 
     try {
-      // Note: HuggingFace transformers.js tokenization API varies by model
-      // For now, we'll simulate tokenization since exact API differs
-      const tokens = await this.simulateTokenization(tape, modelName);
-      
+      const ids = tokenizer.encode(tape);
+      const tokenStrings = tokenizer.model.convert_ids_to_tokens(ids);
+
       return {
         model: modelName,
-        tokens: tokens.ids,
-        tokenStrings: tokens.strings,
+        tokens: ids,
+        tokenStrings,
         metadata: {
-          sequenceLength: tokens.ids.length,
-          vocabSize: 50000, // Approximate
-          unknownTokens: tokens.strings.filter(t => t.includes('[UNK]')).length
+          sequenceLength: ids.length,
+          vocabSize: tokenizer.model.vocab.length,
+          unknownTokens: tokenizer.unk_token_id === undefined
+            ? 0
+            : ids.filter(id => id === tokenizer.unk_token_id).length,
+          byteFallbackTokens: ids.filter((id, index) =>
+            this.isByteFallbackToken(tokenizer, id, tokenStrings[index])
+          ).length
         }
       };
     } catch (error) {
@@ -67,38 +218,53 @@ export class LLMEmojiSampler {
   /**
    * Generate embeddings for the tokenized tape
    */
-  async embedTape(modelName: SupportedModels, tape: string = EMOJI_BLOCK_TAPE): Promise<LLMEmbeddings> {
-    const embedder = this.embedders.get(modelName);
-    if (!embedder) {
+  async embedTape(
+    modelName: ModelId,
+    tape: string = EMOJI_BLOCK_TAPE,
+    pooling: PoolingStrategy = this.defaultPooling(modelName)
+  ): Promise<LLMEmbeddings> {
+    const model = this.models.get(modelName);
+    if (!model) {
       throw new Error(`🎯 Model ${modelName} not initialized for embedding.`);
     }
 
     const startTime = performance.now();
     
     try {
-      // Generate embeddings using feature extraction
-      const result = await embedder(tape, { 
-        pooling: 'mean', 
-        normalize: true 
-      });
-      
+      const { outputs, poolingMask } = await this.forward(modelName, tape);
+
       const endTime = performance.now();
-      
-      // Convert tensor result to arrays
-      const embeddings = Array.isArray(result) ? result : [result];
-      const embedding = embeddings[0];
-      
-      // Simulate layer-wise embeddings (since we can't access internal layers easily)
-      const layers = this.simulateLayerEmbeddings(embedding, modelName);
+
+      const modelConfig = model.config as unknown as Record<string, number>;
+      const totalLayers = modelConfig.num_hidden_layers ?? modelConfig.n_layer ?? modelConfig.num_layers;
+      const { states, readout } = this.readoutStates(outputs);
+
+      // hidden_states[0] is the embedding output; a model exported without them only yields the last layer
+      const firstLayerIndex = totalLayers + 1 - states.length;
+      const layers: EmbeddingLayer[] = states.map((state, index) => {
+        const embedding = this.pool(state, poolingMask, pooling, readout);
+        return {
+          layerIndex: firstLayerIndex + index,
+          embedding,
+          dimension: embedding.length,
+          norm: norm(embedding)
+        };
+      });
+
+      // Same readout as the feature-extraction pipeline with { pooling, normalize: true }
+      const pooledEmbedding = normalize(layers[layers.length - 1].embedding);
       
       return {
         model: modelName,
         layers,
-        pooledEmbedding: Array.from(embedding),
+        pooledEmbedding,
         metadata: {
-          totalLayers: layers.length,
-          hiddenSize: embedding.length,
-          processingTime: endTime - startTime
+          totalLayers,
+          hiddenSize: pooledEmbedding.length,
+          processingTime: endTime - startTime,
+          ...this.runtimes.get(modelName),
+          pooling,
+          readout
         }
       };
     } catch (error) {
@@ -108,171 +274,510 @@ export class LLMEmojiSampler {
   }
 
   /**
-   * Map embeddings to intrinsic primes (Universal Semantic Framework)
+   * Token-level readout of the tape (`pooling: 'none'`): one vector per input
+   * token in the pooled readout's space, aligned back to the tape's graphemes
    */
-  mapEmbeddingsToPrimes(embeddings: LLMEmbeddings): PrimeMappedEmbedding[] {
-    const pooled = embeddings.pooledEmbedding;
-    const primeCount = INTRINSIC_PRIMES.length;
-    
-    // Reduce high-dimensional embedding to prime dimensions using PCA-like approach
-    const reducedDimensions = this.reduceToPrimeDimensions(pooled, primeCount);
-    
-    const mappings: PrimeMappedEmbedding[] = INTRINSIC_PRIMES.map((primeInfo, index) => {
-      const activation = reducedDimensions[index] || 0;
-      return {
-        prime: primeInfo.prime,
-        emoji: primeInfo.emoji,
-        activation,
-        normalizedActivation: Math.tanh(activation), // Normalize to [-1, 1]
-        rank: index
-      };
-    });
+  async embedTokens(
+    modelName: ModelId,
+    tape: string = EMOJI_BLOCK_TAPE,
+    pooling: PoolingStrategy = this.defaultPooling(modelName)
+  ): Promise<TokenEmbeddings> {
+    const tokenizer = this.tokenizers.get(modelName);
+    if (!this.models.has(modelName) || !tokenizer) {
+      throw new Error(`🎯 Model ${modelName} not initialized for embedding.`);
+    }
 
-    // Sort by activation strength to show most active primes
-    mappings.sort((a, b) => Math.abs(b.normalizedActivation) - Math.abs(a.normalizedActivation));
-    mappings.forEach((mapping, index) => {
-      mapping.rank = index + 1;
-    });
+    const { outputs, inputIds, poolingMask } = await this.forward(modelName, tape);
+    const { states, readout } = this.readoutStates(outputs);
+    const state = states[states.length - 1];
+    const [, sequenceLength, hiddenSize] = state.dims;
+    const data = state.data as Float32Array;
+    const pooledPositions = new Set(this.pooledPositions(poolingMask, pooling));
+
+    const aligned = this.inputGraphemeOffsets(tokenizer, tape, inputIds);
+    const tokenStrings = tokenizer.model.convert_ids_to_tokens(inputIds);
 
-    return mappings;
+    const tokens: TokenEmbedding[] = [];
+    for (let position = 0; position < sequenceLength; position++) {
+      const vector = Array.from(data.subarray(position * hiddenSize, (position + 1) * hiddenSize));
+      const center = readout === 'logits' ? mean(vector) : 0;
+      tokens.push({
+        tokenIndex: position,
+        token: tokenStrings[position],
+        graphemeOffset: aligned[position],
+        pooled: pooledPositions.has(position),
+        embedding: center ? vector.map(value => value - center) : vector
+      });
+    }
+
+    return { model: modelName, pooling, readout, tokens };
   }
 
   /**
-   * Encode tape segment as Gödel number using prime mappings
+   * Attention between the tape's emojis, per layer and head. Needs a model
+   * exported with attention outputs; most encoder exports have them.
    */
-  encodeAsGodel(tapeSegment: string, primeMappings: PrimeMappedEmbedding[]): GodelEncoding {
-    let godelNumber = BigInt(1);
-    const primeMap = new Map(INTRINSIC_PRIMES.map(p => [p.emoji, p.prime]));
-    
-    // Calculate Gödel number: product of prime^exponent for each emoji
-    for (const emoji of tapeSegment) {
-      const prime = primeMap.get(emoji);
-      if (prime) {
-        const mapping = primeMappings.find(m => m.prime === prime);
-        const exponent = mapping ? Math.max(1, Math.floor(Math.abs(mapping.normalizedActivation) * 5)) : 1;
-        godelNumber *= BigInt(prime) ** BigInt(exponent);
-      }
+  async extractAttention(modelName: ModelId, tape: string = EMOJI_BLOCK_TAPE): Promise<TapeAttention> {
+    const tokenizer = this.tokenizers.get(modelName);
+    if (!this.models.has(modelName) || !tokenizer) {
+      throw new Error(`🎯 Model ${modelName} not initialized for attention.`);
+    }
+
+    const { outputs, inputIds } = await this.forward(modelName, tape);
+    const attentions = Object.entries(outputs)
+      .map(([name, tensor]) => ({ match: /attentions\.(\d+)$/.exec(name), tensor }))
+      .filter(entry => entry.match !== null)
+      .sort((a, b) => Number(a.match[1]) - Number(b.match[1]));
+    if (attentions.length === 0) {
+      throw new Error(`🎲 Model ${modelName} was exported without attention outputs.`);
     }
 
+    const graphemes = tapeGraphemes(tape);
+    const offsets = this.inputGraphemeOffsets(tokenizer, tape, inputIds);
+    const graphemeAt = offsets.map(offset => (offset === null ? null : graphemes.findIndex(g => g.offset === offset)));
+
     return {
-      tapeSegment,
-      godelNumber,
-      primeMappings,
-      hierarchy: {
-        size: tapeSegment.length,
-        program: tapeSegment,
-        cycles: Math.floor(tapeSegment.length / 7) // Approximate autopoetic cycles
+      model: modelName,
+      emojis: graphemes,
+      layers: attentions.map(({ match, tensor }) =>
+        emojiAttentionLayer(Number(match[1]) + 1, tensor.data as Float32Array, tensor.dims, graphemeAt, graphemes)
+      )
+    };
+  }
+
+  /**
+   * Score each tape token under a causal language model: its next-token
+   * log-probability, and the surprisal summed per emoji
+   */
+  async scoreTape(modelName: ModelId, tape: string = EMOJI_BLOCK_TAPE): Promise<DecoderAnalysis> {
+    const tokenizer = this.tokenizers.get(modelName);
+    if (this.tasks.get(modelName) !== 'text-generation' || !tokenizer) {
+      throw new Error(`🎲 Model ${modelName} is not initialized as a causal language model.`);
+    }
+
+    const { outputs, inputIds } = await this.forward(modelName, tape);
+    const logits = outputs.logits;
+    const vocabSize = logits.dims[2];
+    const tapeIds = inputIds.slice(1);
+    const tokens = tokenLogProbs(
+      logits.data as Float32Array,
+      vocabSize,
+      inputIds,
+      tokenizer.model.convert_ids_to_tokens(tapeIds)
+    );
+    const emojis = emojiSurprisal(tokens, tapeGraphemes(tape), count =>
+      tokenizer.decode(tapeIds.slice(0, count), { skip_special_tokens: true })
+    );
+    const totalBits = tokens.reduce((sum, token) => sum + token.surprisal, 0);
+
+    return {
+      tokenLogProbs: tokens,
+      emojiSurprisal: emojis,
+      meanSurprisal: mean(tokens.map(token => token.surprisal)),
+      perplexity: perplexityFromBits(totalBits, tokens.length),
+      segmentPerplexity: segmentPerplexity(emojis)
+    };
+  }
+
+  /**
+   * Ask a causal language model which intrinsic prime emoji comes next after a tape prefix.
+   * Each candidate is scored as log p(prefix + emoji) − log p(prefix), which handles emojis
+   * spanning several byte tokens and tokens that merge across the boundary.
+   */
+  async predictNextEmoji(
+    modelName: ModelId,
+    prefix: string,
+    topK: number = 5,
+    alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES
+  ): Promise<NextEmojiPrediction> {
+    const tokenizer = this.tokenizers.get(modelName);
+    if (this.tasks.get(modelName) !== 'text-generation' || !tokenizer) {
+      throw new Error(`🎲 Model ${modelName} is not initialized as a causal language model.`);
+    }
+
+    const prefixIds = this.decoderInputIds(tokenizer, prefix);
+    const scored: NextEmojiCandidate[] = [];
+    let prefixLogits: Tensor | undefined;
+
+    for (const primeInfo of alphabet) {
+      const ids = this.decoderInputIds(tokenizer, prefix + primeInfo.emoji);
+      let shared = 0;
+      while (shared < prefixIds.length && ids[shared] === prefixIds[shared]) shared++;
+
+      const { logits } = await this.runDecoder(modelName, ids);
+      const vocabSize = logits.dims[2];
+      const data = logits.data as Float32Array;
+      let logProb = 0;
+      for (let position = Math.max(shared, 1); position < ids.length; position++) {
+        logProb += logSoftmaxAt(data, (position - 1) * vocabSize, vocabSize, ids[position]);
+      }
+      // Tokens merged across the boundary carry prefix text; count what the prefix alone would have scored
+      if (shared < prefixIds.length) {
+        prefixLogits ??= (await this.runDecoder(modelName, prefixIds)).logits;
+        const prefixData = prefixLogits.data as Float32Array;
+        for (let position = Math.max(shared, 1); position < prefixIds.length; position++) {
+          logProb -= logSoftmaxAt(prefixData, (position - 1) * vocabSize, vocabSize, prefixIds[position]);
+        }
       }
+
+      scored.push({ prime: primeInfo.prime, emoji: primeInfo.emoji, meaning: primeInfo.meaning, logProb, probability: 0 });
+    }
+
+    const maxLogProb = Math.max(...scored.map(candidate => candidate.logProb));
+    const restrictedMass = scored.reduce((sum, candidate) => sum + Math.exp(candidate.logProb - maxLogProb), 0);
+    scored.forEach(candidate => {
+      candidate.probability = Math.exp(candidate.logProb - maxLogProb) / restrictedMass;
+    });
+
+    return {
+      model: modelName,
+      prefix,
+      candidates: scored.sort((a, b) => b.logProb - a.logProb).slice(0, topK),
+      coverage: Math.min(1, Math.exp(maxLogProb) * restrictedMass)
     };
   }
 
+  /**
+   * Embed each prime's emoji and meaning with the model itself.
+   * These anchor vectors define the prime axes and are cached per model and pooling.
+   */
+  async getPrimeAnchors(
+    modelName: ModelId,
+    pooling: PoolingStrategy = this.defaultPooling(modelName),
+    alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES
+  ): Promise<PrimeAnchor[]> {
+    return this.embedPrimes(modelName, pooling, alphabet, this.primeAnchors, p => `${p.emoji} ${p.meaning}`);
+  }
+
+  /**
+   * Embed each prime's emoji on its own, for comparing how models
+   * represent the emoji alphabet itself. Cached per model.
+   */
+  async getPrimeEmojiEmbeddings(
+    modelName: ModelId,
+    pooling: PoolingStrategy = this.defaultPooling(modelName),
+    alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES
+  ): Promise<PrimeAnchor[]> {
+    return this.embedPrimes(modelName, pooling, alphabet, this.primeEmojiEmbeddings, p => p.emoji);
+  }
+
+  /**
+   * Map embeddings to intrinsic primes (Universal Semantic Framework)
+   */
+  mapEmbeddingsToPrimes(embeddings: LLMEmbeddings, anchors: PrimeAnchor[]): PrimeMappedEmbedding[] {
+    return mapEmbeddingsToPrimes(embeddings, anchors);
+  }
+
+  /**
+   * Encode tape segment as Gödel number using prime mappings
+   */
+  encodeAsGodel(
+    tapeSegment: string,
+    primeMappings: PrimeMappedEmbedding[],
+    alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES
+  ): GodelEncoding {
+    return encodeAsGodel(tapeSegment, primeMappings, alphabet);
+  }
+
   /**
    * Sample the emoji tape across an LLM and return complete analysis
    */
   async sampleTape(
-    modelName: SupportedModels, 
-    tape: string = EMOJI_BLOCK_TAPE
+    modelName: ModelId, 
+    tape: string = EMOJI_BLOCK_TAPE,
+    { signal, onProgress, runtime, task = 'feature-extraction', pooling, alphabet = INTRINSIC_PRIMES }: SamplingOptions = {}
   ): Promise<LLMSamplingResult> {
-    // Ensure model is initialized
-    if (!this.tokenizers.has(modelName) || !this.embedders.has(modelName)) {
-      await this.initializeModel(modelName);
+    const report = (phase: SamplingPhase) => {
+      signal?.throwIfAborted();
+      onProgress?.({ phase, ...SAMPLING_PHASES[phase] });
+    };
+
+    // Ensure model is initialized on the requested runtime
+    const loaded = this.runtimes.get(modelName);
+    if (
+      !loaded ||
+      !sameRuntime(loaded, resolveRuntime(runtime, await detectDeviceSupport())) ||
+      this.tasks.get(modelName) !== task
+    ) {
+      report('initializing');
+      await this.initializeModel(modelName, { signal, onProgress, runtime, task });
     }
+    const readoutPooling = pooling ?? this.defaultPooling(modelName);
 
     // Tokenize the tape
+    report('tokenizing');
     const tokenization = await this.tokenizeTape(modelName, tape);
     
     // Generate embeddings
-    const embeddings = await this.embedTape(modelName, tape);
+    report('embedding');
+    const embeddings = await this.embedTape(modelName, tape, readoutPooling);
+
+    // Causal language models also score how expected each token was
+    let decoder: DecoderAnalysis | null = null;
+    if (task === 'text-generation') {
+      report('scoring');
+      decoder = await this.scoreTape(modelName, tape);
+    }
     
-    // Map to intrinsic primes
-    const primeMapping = this.mapEmbeddingsToPrimes(embeddings);
+    // Map to intrinsic primes via the model's own anchor embeddings
+    report('anchoring');
+    const anchors = await this.getPrimeAnchors(modelName, readoutPooling, alphabet);
+    const primeMapping = this.mapEmbeddingsToPrimes(embeddings, anchors);
+    const primeEmojiEmbeddings = await this.getPrimeEmojiEmbeddings(modelName, readoutPooling, alphabet);
+    const tokenEmbeddings = await this.embedTokens(modelName, tape, readoutPooling);
+    const graphemes = tapeGraphemes(tape);
+    const emojiAttribution = attributeToEmojis(tokenEmbeddings.tokens, graphemes, anchors);
+    const emojiEmbeddings = embedEmojis(tokenEmbeddings.tokens, graphemes);
+    const attention = await this.extractAttention(modelName, tape).catch(error => {
+      console.warn(`🎲 No attention maps for ${modelName}:`, error);
+      return null;
+    });
     
     // Encode as Gödel number
-    const godelEncoding = this.encodeAsGodel(tape, primeMapping);
+    report('encoding');
+    const godelEncoding = this.encodeAsGodel(tape, primeMapping, alphabet);
     
-    // Extract universal anchor (Prime 2 = 🎩 Creativity)
-    const prime2Mapping = primeMapping.find(m => m.prime === 2);
-    const universalAnchor = {
-      prime2Activation: prime2Mapping?.activation || 0,
-      consistencyScore: prime2Mapping ? Math.abs(prime2Mapping.normalizedActivation) : 0,
-      semanticDrift: 0 // Will be calculated when comparing across models
-    };
-
-    return {
+    const result: LLMSamplingResult = {
       timestamp: Date.now(),
       tape,
+      alphabet,
       tokenization,
       embeddings,
+      primeAnchors: anchors,
+      primeEmojiEmbeddings,
       primeMapping,
       godelEncoding,
-      universalAnchor
+      decoder,
+      emojiAttribution,
+      emojiEmbeddings,
+      attention,
+      universalAnchor: this.measureUniversalAnchor(primeMapping)
     };
+
+    // Drift of the 🎩 anchor against the baseline model or this model's previous sample
+    const reference = await this.findDriftReference(result);
+    if (reference) {
+      result.universalAnchor.semanticDrift = computeSemanticDrift(result, reference);
+      result.universalAnchor.driftReference = {
+        kind: reference.tokenization.model === modelName ? 'previous' : 'baseline',
+        model: reference.tokenization.model,
+        timestamp: reference.timestamp
+      };
+    }
+    this.history = [...this.history, result].slice(-RECENT_HISTORY_LIMIT);
+
+    report('complete');
+    return result;
   }
 
   /**
-   * Utility: Simulate tokenization for different models
+   * Latest earlier sample of the reference model on the same tape, from this
+   * session or the persisted sampling history
    */
-  private async simulateTokenization(tape: string, modelName: string): Promise<{ids: number[], strings: string[]}> {
-    // Simplified tokenization simulation
-    // In a real implementation, you'd use the actual tokenizer API
-    const emojis = Array.from(tape);
-    const ids = emojis.map((emoji, index) => {
-      // Hash emoji to consistent token ID
-      let hash = 0;
-      for (let i = 0; i < emoji.length; i++) {
-        hash = ((hash << 5) - hash + emoji.charCodeAt(i)) & 0xffffffff;
-      }
-      return Math.abs(hash) % 50000; // Simulate vocab size
-    });
+  private async findDriftReference(result: LLMSamplingResult): Promise<LLMSamplingResult | null> {
+    const stored = await samplingHistory
+      .list({ model: driftReferenceModel(result, this.driftBaseline), tape: result.tape })
+      .catch(error => {
+        console.warn('🎲 Sampling history unavailable for drift:', error);
+        return [];
+      });
+    // Records come newest first, so the first exact match is the latest stored one
+    const latestStored = stored.find(record => record.tape === result.tape && record.timestamp < result.timestamp);
+    const candidates = latestStored ? [...this.history, deserializeResult(latestStored.result)] : this.history;
+    return findDriftReference(result, candidates, this.driftBaseline);
+  }
 
+  /**
+   * Choose the model that semantic drift is measured against.
+   * With no baseline, each sample is compared to the previous sample of the same model and tape.
+   */
+  setDriftBaseline(modelName: ModelId | null): void {
+    this.driftBaseline = modelName;
+  }
+
+  /**
+   * Utility: Extract universal anchor (Prime 2 = 🎩 Creativity) before any drift reference is known
+   */
+  private measureUniversalAnchor(primeMapping: PrimeMappedEmbedding[]): LLMSamplingResult['universalAnchor'] {
+    const prime2Mapping = primeMapping.find(m => m.prime === 2);
     return {
-      ids,
-      strings: emojis
+      prime2Activation: prime2Mapping?.activation || 0,
+      consistencyScore: prime2Mapping ? Math.abs(prime2Mapping.normalizedActivation) : 0,
+      semanticDrift: null,
+      driftReference: null
     };
   }
 
   /**
-   * Utility: Simulate layer-wise embeddings
+   * Utility: Detect tokens that carry raw bytes rather than a whole character.
+   * Covers SentencePiece `<0xNN>` pieces and byte-level BPE fragments that
+   * only decode to a replacement character on their own.
    */
-  private simulateLayerEmbeddings(pooledEmbedding: ArrayLike<number>, modelName: string): any[] {
-    const embedding = Array.from(pooledEmbedding);
-    const layerCount = modelName.includes('bert') ? 12 : modelName.includes('gpt') ? 12 : 6;
-    
-    return Array.from({ length: layerCount }, (_, layerIndex) => {
-      // Simulate layer evolution by adding noise and scaling
-      const layerScale = (layerIndex + 1) / layerCount;
-      const layerEmbedding = embedding.map(val => 
-        val * layerScale + (Math.random() - 0.5) * 0.1
-      );
-      
-      return {
-        layerIndex,
-        embedding: layerEmbedding,
-        dimension: embedding.length,
-        norm: Math.sqrt(layerEmbedding.reduce((sum, val) => sum + val * val, 0))
-      };
+  private isByteFallbackToken(tokenizer: PreTrainedTokenizer, id: number, token: string): boolean {
+    if (/^<0x[0-9A-Fa-f]{2}>$/.test(token)) return true;
+    return tokenizer.decode([id], { skip_special_tokens: true }).includes('\uFFFD');
+  }
+
+  /**
+   * Utility: Pooling that suits the loaded model when none is requested
+   */
+  private defaultPooling(modelName: ModelId): PoolingStrategy {
+    return this.tasks.get(modelName) === 'text-generation' ? 'last-token' : 'mean';
+  }
+
+  private clearAnchors(modelName: ModelId): void {
+    for (const cache of [this.primeAnchors, this.primeEmojiEmbeddings]) {
+      Array.from(cache.keys())
+        .filter(key => key.startsWith(`${modelName}|`))
+        .forEach(key => cache.delete(key));
+    }
+  }
+
+  /**
+   * Utility: Run the underlying model on text, returning its raw outputs.
+   * Decoders get a BOS token first so the first tape token is predicted too;
+   * the pooling mask leaves that position out, since it is the same for every input.
+   */
+  private async forward(
+    modelName: ModelId,
+    text: string
+  ): Promise<{ outputs: Record<string, Tensor>; inputIds: number[]; poolingMask: number[] }> {
+    const model = this.models.get(modelName);
+    const tokenizer = this.tokenizers.get(modelName);
+
+    if (this.tasks.get(modelName) === 'text-generation') {
+      const inputIds = this.decoderInputIds(tokenizer, text);
+      const outputs = await this.runDecoder(modelName, inputIds);
+      return { outputs, inputIds, poolingMask: inputIds.map((_, index) => (index === 0 ? 0 : 1)) };
+    }
+
+    const inputs = tokenizer(text);
+    const outputs: Record<string, Tensor> = await model(inputs);
+    const inputIds = Array.from(inputs.input_ids.data as ArrayLike<bigint>, Number);
+    const poolingMask = Array.from(inputs.attention_mask.data as ArrayLike<bigint>, Number);
+    return { outputs, inputIds, poolingMask };
+  }
+
+  /**
+   * Utility: Tape offset of the grapheme behind each input position, null for
+   * special tokens (CLS, BOS, SEP) and tokens that only carry separators
+   */
+  private inputGraphemeOffsets(tokenizer: PreTrainedTokenizer, tape: string, inputIds: number[]): (number | null)[] {
+    const tapeIds = tokenizer.encode(tape, { add_special_tokens: false });
+    const lead = Math.max(0, inputIds.findIndex((_, start) => tapeIds.every((id, i) => inputIds[start + i] === id)));
+    const aligned = alignTokensToGraphemes(tape, tapeGraphemes(tape), text =>
+      tokenizer.encode(text, { add_special_tokens: false }).length
+    );
+    return inputIds.map((_, position) => aligned[position - lead] ?? null);
+  }
+
+  /**
+   * Utility: Decoder input ids for text, led by BOS (GPT-2 reuses its end-of-text token)
+   */
+  private decoderInputIds(tokenizer: PreTrainedTokenizer, text: string): number[] {
+    const bos = tokenizer.bos_token_id ?? tokenizer.model.tokens_to_ids.get(tokenizer.eos_token ?? '');
+    return [bos, ...tokenizer.encode(text, { add_special_tokens: false })];
+  }
+
+  private async runDecoder(modelName: ModelId, inputIds: number[]): Promise<Record<string, Tensor>> {
+    const toTensor = (values: number[]) =>
+      new Tensor('int64', BigInt64Array.from(values.map(BigInt)), [1, values.length]);
+    return this.models.get(modelName)({
+      input_ids: toTensor(inputIds),
+      attention_mask: toTensor(inputIds.map(() => 1))
     });
   }
 
   /**
-   * Utility: Reduce high-dimensional embedding to prime dimensions
+   * Utility: Embed one text per alphabet entry with the same readout as the tape.
+   * Vectors are cached per text, so editing an alphabet only embeds what changed.
    */
-  private reduceToPrimeDimensions(embedding: number[], targetDims: number): number[] {
-    // Simplified dimensionality reduction using chunk averaging
-    const chunkSize = Math.floor(embedding.length / targetDims);
-    const reduced: number[] = [];
-
-    for (let i = 0; i < targetDims; i++) {
-      const start = i * chunkSize;
-      const end = start + chunkSize;
-      const chunk = embedding.slice(start, end);
-      const average = chunk.reduce((sum, val) => sum + val, 0) / chunk.length;
-      reduced.push(average);
+  private async embedPrimes(
+    modelName: ModelId,
+    pooling: PoolingStrategy,
+    alphabet: EmojiPrimeMapping[],
+    cache: Map<string, number[]>,
+    textFor: (primeInfo: EmojiPrimeMapping) => string
+  ): Promise<PrimeAnchor[]> {
+    if (!this.models.has(modelName)) {
+      throw new Error(`🎯 Model ${modelName} not initialized for embedding.`);
     }
 
-    return reduced;
+    const embedded: PrimeAnchor[] = [];
+    for (const primeInfo of alphabet) {
+      const text = textFor(primeInfo);
+      const cacheKey = `${modelName}|${pooling}|${text}`;
+      let embedding = cache.get(cacheKey);
+      if (!embedding) {
+        const { outputs, poolingMask } = await this.forward(modelName, text);
+        const { states, readout } = this.readoutStates(outputs);
+        embedding = normalize(this.pool(states[states.length - 1], poolingMask, pooling, readout));
+        cache.set(cacheKey, embedding);
+      }
+      embedded.push({ prime: primeInfo.prime, emoji: primeInfo.emoji, text, embedding });
+    }
+
+    return embedded;
   }
-}
 
-// Export singleton instance
-export const emojiSampler = new LLMEmojiSampler();
\ No newline at end of file
+  /**
+   * Utility: Pick per-layer hidden states out of the raw model outputs, in layer order.
+   * The outputs are fixed when the model is exported to ONNX: exports without
+   * per-layer states (the built-in ones among them) give only the final layer, and
+   * causal LM exports often carry only logits, which then serve as the readout.
+   */
+  private readoutStates(outputs: Record<string, Tensor>): {
+    states: Tensor[];
+    readout: LLMEmbeddings['metadata']['readout'];
+  } {
+    const layerStates = Object.entries(outputs)
+      .map(([name, tensor]) => ({ match: /hidden_states\.(\d+)$/.exec(name), tensor }))
+      .filter(entry => entry.match !== null)
+      .sort((a, b) => Number(a.match[1]) - Number(b.match[1]))
+      .map(entry => entry.tensor);
+
+    if (layerStates.length > 0) return { states: layerStates, readout: 'hidden-state' };
+    if (outputs.last_hidden_state) return { states: [outputs.last_hidden_state], readout: 'hidden-state' };
+    return { states: [outputs.logits], readout: 'logits' };
+  }
+
+  /**
+   * Utility: Positions a pooling strategy reads, among those the mask keeps
+   */
+  private pooledPositions(mask: number[], pooling: PoolingStrategy): number[] {
+    const positions = mask.map((keep, position) => (keep ? position : -1)).filter(position => position >= 0);
+    return pooling === 'cls' ? positions.slice(0, 1) :
+      pooling === 'last-token' ? positions.slice(-1) :
+      positions;
+  }
+
+  /**
+   * Utility: Pool a [1, sequence, hidden] tensor over the positions the mask keeps.
+   * Logits are centered first; softmax ignores a shared offset, so it would only add noise to cosines.
+   */
+  private pool(
+    state: Tensor,
+    mask: number[],
+    pooling: PoolingStrategy,
+    readout: LLMEmbeddings['metadata']['readout']
+  ): number[] {
+    const [, , hiddenSize] = state.dims;
+    const data = state.data as Float32Array;
+    const selected = this.pooledPositions(mask, pooling);
+
+    const pooled = new Array<number>(hiddenSize).fill(0);
+    for (const position of selected) {
+      const offset = position * hiddenSize;
+      for (let dim = 0; dim < hiddenSize; dim++) {
+        pooled[dim] += data[offset + dim];
+      }
+    }
+
+    const averaged = pooled.map(val => val / Math.max(selected.length, 1));
+    if (readout === 'logits') {
+      const center = mean(averaged);
+      return averaged.map(val => val - center);
+    }
+    return averaged;
+  }
+}
@@ -0,0 +1,79 @@
+import type { CachedModelFile, CachedModelInfo, ModelId } from '@/types/llm';
+
+// transformers.js stores every downloaded file in this Cache Storage bucket
+const MODEL_CACHE_NAME = 'transformers-cache';
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB'];
+
+/**
+ * Human-readable byte count, e.g. "42.7 MB"
+ */
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${BYTE_UNITS[unit]}`;
+}
+
+/**
+ * Cache keys are the remote file URLs, `<host>/<model id>/resolve/<revision>/<file>`
+ */
+function isModelFile(url: string, model: ModelId): boolean {
+  return new URL(url).pathname.startsWith(`/${model}/`);
+}
+
+async function openModelCache(): Promise<Cache | null> {
+  if (typeof caches === 'undefined') return null;
+  try {
+    return await caches.open(MODEL_CACHE_NAME);
+  } catch (error) {
+    console.warn('🔢 Browser cache unavailable:', error);
+    return null;
+  }
+}
+
+async function cachedFileSize(cache: Cache, request: Request): Promise<number> {
+  const response = await cache.match(request);
+  if (!response) return 0;
+  const contentLength = Number(response.headers.get('content-length'));
+  return contentLength > 0 ? contentLength : (await response.blob()).size;
+}
+
+/**
+ * List the models with files in the browser cache, with their on-disk size.
+ * Models with nothing cached are omitted.
+ */
+export async function listCachedModels(models: ModelId[]): Promise<CachedModelInfo[]> {
+  const cache = await openModelCache();
+  if (!cache) return [];
+
+  const requests = await cache.keys();
+  const cached: CachedModelInfo[] = [];
+
+  for (const model of models) {
+    const files: CachedModelFile[] = [];
+    for (const request of requests.filter(r => isModelFile(r.url, model))) {
+      files.push({ url: request.url, size: await cachedFileSize(cache, request) });
+    }
+    if (files.length > 0) {
+      cached.push({ model, files, size: files.reduce((sum, file) => sum + file.size, 0) });
+    }
+  }
+
+  return cached;
+}
+
+/**
+ * Delete every cached file for a model. Returns the number of files removed.
+ */
+export async function evictCachedModel(model: ModelId): Promise<number> {
+  const cache = await openModelCache();
+  if (!cache) return 0;
+
+  const requests = (await cache.keys()).filter(r => isModelFile(r.url, model));
+  await Promise.all(requests.map(request => cache.delete(request)));
+  return requests.length;
+}
@@ -0,0 +1,114 @@
+import {
+  INTRINSIC_PRIMES,
+  type EmojiPrimeMapping,
+  type LLMSamplingResult,
+  type ModelComparison
+} from '@/types/llm';
+import { sharedAlphabet } from '@/utils/prime-alphabet';
+import { pca } from '@/utils/pca';
+import { compareRepresentations, spearmanCorrelation } from '@/utils/representational-similarity';
+import { mean } from '@/utils/vector-math';
+
+/**
+ * Population variance of Prime 2 (🎩) activations across results
+ */
+export function calculatePrime2Variance(results: LLMSamplingResult[]): number {
+  const activations = results.map(r => r.universalAnchor.prime2Activation);
+  const average = mean(activations);
+  return mean(activations.map(val => (val - average) ** 2));
+}
+
+/**
+ * Normalized activation of every prime in the alphabet, in alphabet order
+ */
+export function primeActivationProfile(
+  result: LLMSamplingResult,
+  alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES
+): number[] {
+  return alphabet.map(p =>
+    result.primeMapping.find(m => m.prime === p.prime)?.normalizedActivation ?? 0
+  );
+}
+
+/**
+ * Mean of the off-diagonal entries of a square matrix; 1 when there is only one row
+ */
+function meanOffDiagonal(matrix: number[][]): number {
+  const values = matrix.flatMap((row, i) => row.filter((_, j) => j !== i));
+  return values.length === 0 ? 1 : mean(values);
+}
+
+/**
+ * Tapes in the results and the models that sampled each, most models first
+ */
+export function tapesByModel(results: LLMSamplingResult[]): { tape: string; models: string[] }[] {
+  const groups = new Map<string, Set<string>>();
+  for (const result of results) {
+    if (!groups.has(result.tape)) groups.set(result.tape, new Set());
+    groups.get(result.tape)?.add(result.tokenization.model);
+  }
+  return Array.from(groups, ([tape, models]) => ({ tape, models: Array.from(models) })).sort(
+    (a, b) => b.models.length - a.models.length
+  );
+}
+
+/**
+ * Most recent result for each model on one tape, in first-seen order.
+ * Models are only comparable on the same input.
+ */
+export function latestResultPerModel(results: LLMSamplingResult[], tape: string): LLMSamplingResult[] {
+  const latest = new Map<string, LLMSamplingResult>();
+  for (const result of results) {
+    if (result.tape !== tape) continue;
+    const existing = latest.get(result.tokenization.model);
+    if (!existing || existing.timestamp < result.timestamp) {
+      latest.set(result.tokenization.model, result);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+/**
+ * Build a ModelComparison from one sampling result per model on the given tape.
+ *
+ * - prime2Variance: population variance of the 🎩 anchor cosine across models.
+ * - semanticAlignment: mean pairwise RSA (Spearman ρ between the models'
+ *   prime-emoji similarity matrices), in [-1, 1].
+ * - hierarchyPreservation: mean pairwise Spearman ρ between the models'
+ *   prime activation profiles — do they rank the ten primes the same way.
+ * - embeddingSpace: 2D PCA of the activation profiles, one point per model.
+ * - primeDistribution: models × primes normalized activations.
+ * - convergencePlot: prime2Variance over the first k models, k = 1..n.
+ */
+export function buildModelComparison(results: LLMSamplingResult[], tape: string): ModelComparison {
+  const perModel = latestResultPerModel(results, tape);
+  const models = perModel.map(r => r.tokenization.model);
+  const alphabet = sharedAlphabet(perModel);
+  const profiles = perModel.map(result => primeActivationProfile(result, alphabet));
+  const representations = compareRepresentations(perModel, alphabet);
+
+  const rankCorrelations = profiles.map(a => profiles.map(b => spearmanCorrelation(a, b)));
+  const embeddingSpace = profiles.length >= 2
+    ? pca(profiles, 2).projections.map(([x, y = 0]) => [x, y])
+    : profiles.map(() => [0, 0]);
+
+  return {
+    tape,
+    models,
+    alphabet,
+    results: perModel,
+    convergenceMetrics: {
+      prime2Variance: calculatePrime2Variance(perModel),
+      semanticAlignment: meanOffDiagonal(representations.rsa),
+      hierarchyPreservation: meanOffDiagonal(rankCorrelations)
+    },
+    visualizations: {
+      embeddingSpace,
+      primeDistribution: profiles,
+      convergencePlot: perModel.map((_, index) => ({
+        x: index + 1,
+        y: calculatePrime2Variance(perModel.slice(0, index + 1))
+      }))
+    }
+  };
+}
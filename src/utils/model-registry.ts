@@ -0,0 +1,243 @@
+import type { ModelId, ModelRegistryEntry, ModelTask, PoolingStrategy, TokenizerFamily } from '@/types/llm';
+
+const HUB_URL = 'https://huggingface.co';
+const CUSTOM_MODELS_KEY = 'emoji-tape:custom-models';
+
+export const BUILTIN_MODELS: ModelRegistryEntry[] = [
+  {
+    id: 'Xenova/bert-base-uncased',
+    label: 'BERT Base',
+    description: 'Bidirectional encoder, great for understanding context',
+    task: 'feature-extraction',
+    pooling: 'mean',
+    layers: 12,
+    hiddenSize: 768,
+    tokenizerFamily: 'wordpiece',
+    license: 'apache-2.0',
+    builtin: true
+  },
+  {
+    id: 'Xenova/distilbert-base-uncased',
+    label: 'DistilBERT',
+    description: 'Faster, lighter version of BERT',
+    task: 'feature-extraction',
+    pooling: 'mean',
+    layers: 6,
+    hiddenSize: 768,
+    tokenizerFamily: 'wordpiece',
+    license: 'apache-2.0',
+    builtin: true
+  },
+  {
+    id: 'Xenova/all-MiniLM-L6-v2',
+    label: 'MiniLM',
+    description: 'Optimized for sentence embeddings',
+    task: 'feature-extraction',
+    pooling: 'mean',
+    layers: 6,
+    hiddenSize: 384,
+    tokenizerFamily: 'wordpiece',
+    license: 'apache-2.0',
+    builtin: true
+  },
+  {
+    id: 'Xenova/sentence-transformers-all-MiniLM-L6-v2',
+    label: 'Sentence MiniLM',
+    description: 'Sentence-transformers export of MiniLM, mean-pooled like its training',
+    task: 'feature-extraction',
+    pooling: 'mean',
+    layers: 6,
+    hiddenSize: 384,
+    tokenizerFamily: 'wordpiece',
+    license: 'apache-2.0',
+    builtin: true
+  },
+  {
+    id: 'Xenova/gpt2',
+    label: 'GPT-2',
+    description: 'Left-to-right decoder with a byte-level BPE vocabulary',
+    task: 'text-generation',
+    pooling: 'last-token',
+    layers: 12,
+    hiddenSize: 768,
+    tokenizerFamily: 'bpe',
+    license: 'mit',
+    builtin: true
+  }
+];
+
+// Hub `tokenizer_class` names, matched by prefix
+const TOKENIZER_FAMILIES: [prefix: string, family: TokenizerFamily][] = [
+  ['Bert', 'wordpiece'],
+  ['DistilBert', 'wordpiece'],
+  ['Electra', 'wordpiece'],
+  ['MPNet', 'wordpiece'],
+  ['GPT2', 'bpe'],
+  ['Roberta', 'bpe'],
+  ['Bart', 'bpe'],
+  ['CodeGen', 'bpe'],
+  ['Qwen2', 'bpe'],
+  ['T5', 'sentencepiece'],
+  ['XLMRoberta', 'sentencepiece'],
+  ['Llama', 'sentencepiece'],
+  ['Albert', 'sentencepiece'],
+  ['Camembert', 'sentencepiece']
+];
+
+interface HubModelInfo {
+  pipeline_tag?: string;
+  tags?: string[];
+  cardData?: { license?: string };
+  siblings?: { rfilename: string }[];
+}
+
+type HubConfig = Record<string, unknown> & { architectures?: string[]; model_type?: string };
+
+type Listener = (entries: ModelRegistryEntry[]) => void;
+
+async function fetchHubJson<T>(url: string, what: string): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`🔢 Could not load ${what} (HTTP ${response.status})`);
+  }
+  return response.json() as Promise<T>;
+}
+
+function firstNumber(config: HubConfig, keys: string[]): number | null {
+  const value = keys.map(key => config[key]).find(v => typeof v === 'number');
+  return typeof value === 'number' ? value : null;
+}
+
+function tokenizerFamily(tokenizerClass: string | undefined): TokenizerFamily {
+  if (!tokenizerClass) return 'unknown';
+  const match = TOKENIZER_FAMILIES.find(([prefix]) => tokenizerClass.startsWith(prefix));
+  return match?.[1] ?? 'unknown';
+}
+
+/**
+ * Look a model up on the Hugging Face Hub and check it can be sampled here:
+ * it needs ONNX weights and a tokenizer for transformers.js, and a base model
+ * whose hidden states the feature-extraction pipeline can read.
+ */
+export async function inspectHubModel(id: ModelId): Promise<ModelRegistryEntry> {
+  const modelId = id.trim();
+  if (!/^[\w.-]+\/[\w.-]+$/.test(modelId)) {
+    throw new Error(`🎯 "${modelId}" is not a Hugging Face model id (expected owner/name)`);
+  }
+
+  const info = await fetchHubJson<HubModelInfo>(`${HUB_URL}/api/models/${modelId}`, `${modelId} from the Hub`);
+  const files = (info.siblings ?? []).map(sibling => sibling.rfilename);
+  if (!files.some(file => /^onnx\/.*\.onnx$/.test(file))) {
+    throw new Error(`🎯 ${modelId} has no ONNX weights, so transformers.js cannot run it`);
+  }
+  if (!files.includes('tokenizer.json')) {
+    throw new Error(`🎯 ${modelId} has no tokenizer.json`);
+  }
+
+  const resolve = (file: string) => `${HUB_URL}/${modelId}/resolve/main/${file}`;
+  const config = await fetchHubJson<HubConfig>(resolve('config.json'), `${modelId} config`);
+  if (!config.model_type) {
+    throw new Error(`🎯 ${modelId} config has no model_type`);
+  }
+
+  const architectures = config.architectures ?? [];
+  if (architectures.some(name => /ForConditionalGeneration|Seq2Seq|Vision|Audio|Speech/.test(name))) {
+    throw new Error(`🎯 ${modelId} (${architectures.join(', ')}) does not support text feature extraction`);
+  }
+  const task: ModelTask = architectures.some(name => /CausalLM|LMHeadModel/.test(name))
+    ? 'text-generation'
+    : 'feature-extraction';
+  const pooling: PoolingStrategy = task === 'text-generation' ? 'last-token' : 'mean';
+
+  const tokenizerConfig = files.includes('tokenizer_config.json')
+    ? await fetchHubJson<{ tokenizer_class?: string }>(resolve('tokenizer_config.json'), `${modelId} tokenizer config`)
+    : {};
+
+  return {
+    id: modelId,
+    label: modelId.split('/')[1],
+    description: [info.pipeline_tag, config.model_type].filter(Boolean).join(' · '),
+    task,
+    pooling,
+    layers: firstNumber(config, ['num_hidden_layers', 'n_layer', 'num_layers']),
+    hiddenSize: firstNumber(config, ['hidden_size', 'n_embd', 'd_model']),
+    tokenizerFamily: tokenizerFamily(tokenizerConfig.tokenizer_class),
+    license: info.cardData?.license ?? info.tags?.find(tag => tag.startsWith('license:'))?.slice(8) ?? 'unknown',
+    builtin: false
+  };
+}
+
+/**
+ * Models that can be sampled: the built-in set plus any added at runtime.
+ * Runtime additions persist in localStorage.
+ */
+export class ModelRegistry {
+  private entries: ModelRegistryEntry[];
+  private listeners = new Set<Listener>();
+
+  constructor(builtins: ModelRegistryEntry[] = BUILTIN_MODELS) {
+    const custom = this.loadCustom().filter(entry => !builtins.some(builtin => builtin.id === entry.id));
+    this.entries = [...builtins, ...custom];
+  }
+
+  list(): ModelRegistryEntry[] {
+    return this.entries;
+  }
+
+  get(id: ModelId): ModelRegistryEntry | undefined {
+    return this.entries.find(entry => entry.id === id);
+  }
+
+  has(id: ModelId): boolean {
+    return this.get(id) !== undefined;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Validate a Hub model id and add it, or return the existing entry
+   */
+  async add(id: ModelId): Promise<ModelRegistryEntry> {
+    const existing = this.get(id.trim());
+    if (existing) return existing;
+
+    const entry = await inspectHubModel(id);
+    this.entries = [...this.entries, entry];
+    this.persist();
+    return entry;
+  }
+
+  remove(id: ModelId): void {
+    const entry = this.get(id);
+    if (!entry) return;
+    if (entry.builtin) {
+      throw new Error(`🎯 ${id} is built in and cannot be removed`);
+    }
+    this.entries = this.entries.filter(e => e.id !== id);
+    this.persist();
+  }
+
+  private loadCustom(): ModelRegistryEntry[] {
+    try {
+      const stored = globalThis.localStorage?.getItem(CUSTOM_MODELS_KEY);
+      return stored ? (JSON.parse(stored) as ModelRegistryEntry[]) : [];
+    } catch (error) {
+      console.warn('🔢 Ignoring unreadable custom model list:', error);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    const custom = this.entries.filter(entry => !entry.builtin);
+    globalThis.localStorage?.setItem(CUSTOM_MODELS_KEY, JSON.stringify(custom));
+    this.listeners.forEach(listener => listener(this.entries));
+  }
+}
+
+// Export singleton instance
+export const modelRegistry = new ModelRegistry();
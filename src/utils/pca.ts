@@ -0,0 +1,81 @@
+import { dot, norm } from '@/utils/vector-math';
+
+export interface PCAResult {
+  projections: number[][]; // One row per input vector, one column per component
+  components: number[][];
+  explainedVariance: number[]; // Fraction of total variance per component
+}
+
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-9;
+
+/**
+ * Principal component analysis by power iteration with deflation.
+ * Works on the n×d data matrix directly (v ← Xᵀ(Xv)), so it stays cheap for
+ * a handful of high-dimensional embeddings. Deterministic: no random starts.
+ */
+export function pca(vectors: number[][], componentCount: number = 2): PCAResult {
+  const rows = vectors.length;
+  const dims = rows > 0 ? vectors[0].length : 0;
+  if (vectors.some(vector => vector.length !== dims)) {
+    throw new Error('🔢 PCA requires vectors of equal dimension');
+  }
+
+  // Center the data
+  const centroid = new Array<number>(dims).fill(0);
+  for (const vector of vectors) {
+    for (let d = 0; d < dims; d++) centroid[d] += vector[d] / rows;
+  }
+  const residual = vectors.map(vector => vector.map((val, d) => val - centroid[d]));
+  const totalVariance = residual.reduce((sum, row) => sum + dot(row, row), 0);
+
+  const components: number[][] = [];
+  const variances: number[] = [];
+
+  for (let k = 0; k < Math.min(componentCount, rows, dims); k++) {
+    // Start from the row with the most remaining variance
+    const start = residual.reduce((best, row) => (dot(row, row) > dot(best, best) ? row : best), residual[0]);
+    let component = scale(start, 1 / (norm(start) || 1));
+    let eigenvalue = 0;
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      const scores = residual.map(row => dot(row, component));
+      const next = new Array<number>(dims).fill(0);
+      residual.forEach((row, i) => {
+        for (let d = 0; d < dims; d++) next[d] += row[d] * scores[i];
+      });
+      const length = norm(next);
+      if (length === 0) break;
+
+      const normalized = scale(next, 1 / length);
+      const change = 1 - Math.abs(dot(normalized, component));
+      component = normalized;
+      eigenvalue = length;
+      if (change < TOLERANCE) break;
+    }
+
+    // Fix the sign so repeated runs agree
+    const pivot = component.reduce((best, val, d) => (Math.abs(val) > Math.abs(component[best]) ? d : best), 0);
+    if (component[pivot] < 0) component = scale(component, -1);
+
+    // Deflate: remove this direction from the residual
+    for (const row of residual) {
+      const score = dot(row, component);
+      for (let d = 0; d < dims; d++) row[d] -= score * component[d];
+    }
+
+    components.push(component);
+    variances.push(eigenvalue);
+  }
+
+  const centered = vectors.map(vector => vector.map((val, d) => val - centroid[d]));
+  return {
+    projections: centered.map(row => components.map(component => dot(row, component))),
+    components,
+    explainedVariance: variances.map(variance => (totalVariance === 0 ? 0 : variance / totalVariance))
+  };
+}
+
+function scale(vector: number[], factor: number): number[] {
+  return vector.map(val => val * factor);
+}
@@ -0,0 +1,198 @@
+import {
+  INTRINSIC_PRIMES,
+  type EmojiPrimeMapping,
+  type LLMSamplingResult,
+  type PrimeAlphabet
+} from '@/types/llm';
+import { primeSequence } from '@/utils/godel';
+import { SEGMENT_SEPARATOR, splitGraphemes } from '@/utils/tape-parser';
+
+const ALPHABETS_KEY = 'emoji-tape:alphabets';
+const ACTIVE_ALPHABET_KEY = 'emoji-tape:active-alphabet';
+
+export const INTRINSIC_ALPHABET: PrimeAlphabet = {
+  id: 'intrinsic',
+  name: 'Intrinsic Primes',
+  primes: INTRINSIC_PRIMES,
+  builtin: true
+};
+
+// Primes with a --prime-N variable in index.css; others get one at runtime
+const STYLED_PRIMES = new Set(INTRINSIC_PRIMES.map(p => p.prime));
+
+type Listener = (alphabets: PrimeAlphabet[], active: PrimeAlphabet) => void;
+
+/**
+ * Smallest prime above every prime already in the alphabet
+ */
+export function nextAlphabetPrime(primes: EmojiPrimeMapping[]): number {
+  const largest = Math.max(1, ...primes.map(p => p.prime));
+  for (const prime of primeSequence()) {
+    if (prime > largest) return prime;
+  }
+  throw new Error('🔢 Prime sequence ended');
+}
+
+/**
+ * Append an emoji under the next free prime, rejecting separators, multi-emoji text and duplicates
+ */
+export function appendAlphabetEmoji(
+  primes: EmojiPrimeMapping[],
+  emoji: string,
+  meaning: string,
+  vibe: string = ''
+): EmojiPrimeMapping[] {
+  const symbol = emoji.trim();
+  if (splitGraphemes(symbol).length !== 1) {
+    throw new Error('🎯 Enter exactly one emoji');
+  }
+  if (symbol === SEGMENT_SEPARATOR) {
+    throw new Error(`🎯 ${SEGMENT_SEPARATOR} is the segment separator`);
+  }
+  if (primes.some(p => p.emoji === symbol)) {
+    throw new Error(`🎯 ${symbol} is already in the alphabet`);
+  }
+  return [...primes, { emoji: symbol, prime: nextAlphabetPrime(primes), meaning: meaning.trim() || symbol, vibe: vibe.trim() }];
+}
+
+/**
+ * CSS color for a prime, for inline styles. Backed by the --prime-N variable.
+ */
+export function primeColor(prime: number, alpha?: number): string {
+  return alpha === undefined ? `hsl(var(--prime-${prime}))` : `hsl(var(--prime-${prime}) / ${alpha})`;
+}
+
+/**
+ * Define --prime-N for primes index.css has no color for, spreading hues by the golden angle
+ */
+export function applyAlphabetColors(primes: EmojiPrimeMapping[]): void {
+  if (typeof document === 'undefined') return;
+  for (const { prime } of primes) {
+    if (STYLED_PRIMES.has(prime)) continue;
+    const hue = Math.round((prime * 137.508) % 360);
+    document.documentElement.style.setProperty(`--prime-${prime}`, `${hue} 85% 65%`);
+  }
+}
+
+/**
+ * Entries every result was sampled with, in the first result's order, so
+ * results from different alphabets still compare on what they share
+ */
+export function sharedAlphabet(results: LLMSamplingResult[]): EmojiPrimeMapping[] {
+  const [first, ...rest] = results.map(result => result.alphabet ?? INTRINSIC_PRIMES);
+  return (first ?? INTRINSIC_PRIMES).filter(entry =>
+    rest.every(alphabet => alphabet.some(p => p.prime === entry.prime && p.emoji === entry.emoji))
+  );
+}
+
+/**
+ * Named alphabets: the built-in one plus any the user saved in localStorage
+ */
+export class PrimeAlphabetRegistry {
+  private alphabets: PrimeAlphabet[];
+  private activeId: string;
+  private listeners = new Set<Listener>();
+
+  constructor() {
+    this.alphabets = [INTRINSIC_ALPHABET, ...this.loadCustom()];
+    const storedActive = globalThis.localStorage?.getItem(ACTIVE_ALPHABET_KEY);
+    this.activeId = this.get(storedActive ?? '') ? storedActive : INTRINSIC_ALPHABET.id;
+    this.alphabets.forEach(alphabet => applyAlphabetColors(alphabet.primes));
+  }
+
+  list(): PrimeAlphabet[] {
+    return this.alphabets;
+  }
+
+  get(id: string): PrimeAlphabet | undefined {
+    return this.alphabets.find(alphabet => alphabet.id === id);
+  }
+
+  get active(): PrimeAlphabet {
+    return this.get(this.activeId) ?? INTRINSIC_ALPHABET;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  setActive(id: string): void {
+    if (!this.get(id)) {
+      throw new Error(`🎯 Unknown alphabet ${id}`);
+    }
+    this.activeId = id;
+    this.persist();
+  }
+
+  /**
+   * Start a new custom alphabet from an existing one's entries
+   */
+  create(name: string, from: PrimeAlphabet = this.active): PrimeAlphabet {
+    const alphabet: PrimeAlphabet = {
+      id: `custom-${Date.now().toString(36)}`,
+      name: name.trim() || `${from.name} (copy)`,
+      primes: from.primes.map(p => ({ ...p })),
+      builtin: false
+    };
+    this.alphabets = [...this.alphabets, alphabet];
+    this.activeId = alphabet.id;
+    this.persist();
+    return alphabet;
+  }
+
+  /**
+   * Replace a custom alphabet's name and entries
+   */
+  update(id: string, changes: Partial<Pick<PrimeAlphabet, 'name' | 'primes'>>): PrimeAlphabet {
+    const alphabet = this.get(id);
+    if (!alphabet) {
+      throw new Error(`🎯 Unknown alphabet ${id}`);
+    }
+    if (alphabet.builtin) {
+      throw new Error(`🎯 ${alphabet.name} is built in and cannot be edited`);
+    }
+    if (changes.primes?.length === 0) {
+      throw new Error('🎯 An alphabet needs at least one emoji');
+    }
+
+    const updated = { ...alphabet, ...changes };
+    this.alphabets = this.alphabets.map(a => (a.id === id ? updated : a));
+    applyAlphabetColors(updated.primes);
+    this.persist();
+    return updated;
+  }
+
+  remove(id: string): void {
+    const alphabet = this.get(id);
+    if (!alphabet) return;
+    if (alphabet.builtin) {
+      throw new Error(`🎯 ${alphabet.name} is built in and cannot be removed`);
+    }
+    this.alphabets = this.alphabets.filter(a => a.id !== id);
+    if (this.activeId === id) this.activeId = INTRINSIC_ALPHABET.id;
+    this.persist();
+  }
+
+  private loadCustom(): PrimeAlphabet[] {
+    try {
+      const stored = globalThis.localStorage?.getItem(ALPHABETS_KEY);
+      return stored ? (JSON.parse(stored) as PrimeAlphabet[]) : [];
+    } catch (error) {
+      console.warn('🔢 Ignoring unreadable alphabet list:', error);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    const custom = this.alphabets.filter(alphabet => !alphabet.builtin);
+    globalThis.localStorage?.setItem(ALPHABETS_KEY, JSON.stringify(custom));
+    globalThis.localStorage?.setItem(ACTIVE_ALPHABET_KEY, this.activeId);
+    this.listeners.forEach(listener => listener(this.alphabets, this.active));
+  }
+}
+
+// Export singleton instance
+export const primeAlphabets = new PrimeAlphabetRegistry();
@@ -0,0 +1,74 @@
+import {
+  INTRINSIC_PRIMES,
+  type EmojiPrimeMapping,
+  type GodelEncoding,
+  type LLMEmbeddings,
+  type PrimeAnchor,
+  type PrimeMappedEmbedding
+} from '@/types/llm';
+import { tapeGraphemes } from '@/utils/tape-parser';
+import { DEFAULT_GODEL_SCHEME, encodeGodel, verifyGodelRoundTrip } from '@/utils/godel';
+import { executeTape } from '@/utils/tape-machine';
+import { cosineSimilarity, mean, standardDeviation } from '@/utils/vector-math';
+
+/**
+ * Map embeddings to intrinsic primes (Universal Semantic Framework).
+ * Activation is the cosine similarity to each prime's anchor; the normalized
+ * activation is that similarity standardized across the alphabet's anchors, which
+ * removes each model's baseline similarity so values compare across models.
+ */
+export function mapEmbeddingsToPrimes(embeddings: LLMEmbeddings, anchors: PrimeAnchor[]): PrimeMappedEmbedding[] {
+  const pooled = embeddings.pooledEmbedding;
+  const similarities = anchors.map(anchor => cosineSimilarity(pooled, anchor.embedding));
+  const average = mean(similarities);
+  const spread = standardDeviation(similarities) || 1;
+
+  const mappings: PrimeMappedEmbedding[] = anchors.map((anchor, index) => {
+    const activation = similarities[index];
+    return {
+      prime: anchor.prime,
+      emoji: anchor.emoji,
+      activation,
+      normalizedActivation: Math.tanh((activation - average) / spread), // Normalize to [-1, 1]
+      rank: index
+    };
+  });
+
+  // Sort by activation strength to show most active primes
+  mappings.sort((a, b) => Math.abs(b.normalizedActivation) - Math.abs(a.normalizedActivation));
+  mappings.forEach((mapping, index) => {
+    mapping.rank = index + 1;
+  });
+
+  return mappings;
+}
+
+/**
+ * Encode tape segment as Gödel number using prime mappings
+ */
+export function encodeAsGodel(
+  tapeSegment: string,
+  primeMappings: PrimeMappedEmbedding[],
+  alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES
+): GodelEncoding {
+  const graphemes = tapeGraphemes(tapeSegment);
+  const godelNumber = encodeGodel(DEFAULT_GODEL_SCHEME, tapeSegment, primeMappings, alphabet);
+  const roundTrip = verifyGodelRoundTrip(tapeSegment, alphabet);
+  const execution = executeTape(tapeSegment, { alphabet });
+
+  return {
+    tapeSegment,
+    scheme: DEFAULT_GODEL_SCHEME,
+    godelNumber,
+    primeMappings,
+    positional: {
+      godelNumber: roundTrip.godelNumber,
+      roundTrip: roundTrip.matches
+    },
+    hierarchy: {
+      size: graphemes.length,
+      program: tapeSegment,
+      cycles: execution.cycles // 🪐 phases entered while running the tape
+    }
+  };
+}
@@ -0,0 +1,102 @@
+import {
+  INTRINSIC_PRIMES,
+  type EmojiPrimeMapping,
+  type LLMSamplingResult,
+  type RepresentationalSimilarity
+} from '@/types/llm';
+import { cosineSimilarity, dot, mean } from '@/utils/vector-math';
+
+/**
+ * Pairwise cosine similarity between every row of `vectors`
+ */
+export function similarityMatrix(vectors: number[][]): number[][] {
+  return vectors.map(a => vectors.map(b => cosineSimilarity(a, b)));
+}
+
+/**
+ * Values above the diagonal, row by row
+ */
+export function upperTriangle(matrix: number[][]): number[] {
+  return matrix.flatMap((row, i) => row.slice(i + 1));
+}
+
+export function pearsonCorrelation(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  const centeredA = a.map(val => val - meanA);
+  const centeredB = b.map(val => val - meanB);
+  const denominator = Math.sqrt(dot(centeredA, centeredA) * dot(centeredB, centeredB));
+  return denominator === 0 ? 0 : dot(centeredA, centeredB) / denominator;
+}
+
+/**
+ * Fractional ranks (ties share their average rank)
+ */
+function ranks(values: number[]): number[] {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) result[order[k].index] = rank;
+    start = end + 1;
+  }
+  return result;
+}
+
+export function spearmanCorrelation(a: number[], b: number[]): number {
+  return pearsonCorrelation(ranks(a), ranks(b));
+}
+
+/**
+ * Representational similarity analysis: Spearman correlation between the
+ * upper triangles of two same-sized similarity matrices
+ */
+export function rsaScore(a: number[][], b: number[][]): number {
+  return spearmanCorrelation(upperTriangle(a), upperTriangle(b));
+}
+
+/**
+ * Double-centre an n×n Gram matrix (H K H with H = I − 11ᵀ/n)
+ */
+function centerGram(gram: number[][]): number[][] {
+  const rowMeans = gram.map(row => mean(row));
+  const grandMean = mean(rowMeans);
+  return gram.map((row, i) => row.map((val, j) => val - rowMeans[i] - rowMeans[j] + grandMean));
+}
+
+/**
+ * Linear centered kernel alignment between two representations of the same
+ * n items. Only the n×n Gram matrices are used, so hidden sizes may differ.
+ */
+export function linearCKA(x: number[][], y: number[][]): number {
+  const k = centerGram(x.map(a => x.map(b => dot(a, b))));
+  const l = centerGram(y.map(a => y.map(b => dot(a, b))));
+  const frobenius = (a: number[][], b: number[][]) =>
+    a.reduce((sum, row, i) => sum + dot(row, b[i]), 0);
+  const denominator = Math.sqrt(frobenius(k, k) * frobenius(l, l));
+  return denominator === 0 ? 0 : frobenius(k, l) / denominator;
+}
+
+/**
+ * Compare how models represent the intrinsic prime emojis. Expects one result per model.
+ */
+export function compareRepresentations(
+  results: LLMSamplingResult[],
+  alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES
+): RepresentationalSimilarity {
+  const models = results.map(r => r.tokenization.model);
+  const representations = results.map(({ primeEmojiEmbeddings }) =>
+    alphabet.map(p => primeEmojiEmbeddings.find(e => e.prime === p.prime)?.embedding ?? [])
+  );
+  const similarityMatrices = representations.map(similarityMatrix);
+
+  return {
+    models,
+    labels: alphabet.map(p => p.emoji),
+    similarityMatrices,
+    rsa: similarityMatrices.map(a => similarityMatrices.map(b => rsaScore(a, b))),
+    cka: representations.map(x => representations.map(y => linearCKA(x, y)))
+  };
+}
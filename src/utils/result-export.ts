@@ -0,0 +1,274 @@
+import type { LLMSamplingResult, ModelComparison } from '@/types/llm';
+import type { SerializedSamplingResult } from '@/types/history';
+import {
+  RESULTS_EXPORT_SCHEMA,
+  RESULTS_EXPORT_VERSION,
+  type ColumnarExport,
+  type PrimeMappingRow,
+  type ResultsExport
+} from '@/types/export';
+import { deserializeResult, serializeComparison, serializeResult } from '@/utils/result-serialization';
+import { GODEL_SCHEMES } from '@/utils/godel';
+
+const ROW_COLUMNS: (keyof PrimeMappingRow)[] = [
+  'model',
+  'timestamp',
+  'tape',
+  'device',
+  'dtype',
+  'pooling',
+  'prime',
+  'emoji',
+  'activation',
+  'normalizedActivation',
+  'rank',
+  'godelNumber'
+];
+
+/**
+ * Full, bigint-safe JSON export of results and their comparison
+ */
+export function exportResultsJSON(results: LLMSamplingResult[], comparison: ModelComparison | null = null): string {
+  const payload: ResultsExport = {
+    schema: RESULTS_EXPORT_SCHEMA,
+    version: RESULTS_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    results: results.map(serializeResult),
+    comparison: comparison ? serializeComparison(comparison) : null
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * One row per prime per result
+ */
+export function primeMappingRows(results: LLMSamplingResult[]): PrimeMappingRow[] {
+  return results.flatMap(result =>
+    result.primeMapping.map(mapping => ({
+      model: result.tokenization.model,
+      timestamp: result.timestamp,
+      tape: result.tape,
+      device: result.embeddings.metadata.device,
+      dtype: result.embeddings.metadata.dtype,
+      pooling: result.embeddings.metadata.pooling,
+      prime: mapping.prime,
+      emoji: mapping.emoji,
+      activation: mapping.activation,
+      normalizedActivation: mapping.normalizedActivation,
+      rank: mapping.rank,
+      godelNumber: result.godelEncoding.godelNumber.toString()
+    }))
+  );
+}
+
+/**
+ * Quote a CSV field when it holds a delimiter, quote or line break (RFC 4180)
+ */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Flat CSV of prime mappings per model, with a header row
+ */
+export function exportPrimeMappingsCSV(results: LLMSamplingResult[]): string {
+  const lines = [
+    ROW_COLUMNS.join(','),
+    ...primeMappingRows(results).map(row => ROW_COLUMNS.map(column => csvField(row[column])).join(','))
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * The CSV rows transposed into columns
+ */
+export function exportPrimeMappingsColumnar(results: LLMSamplingResult[]): string {
+  const rows = primeMappingRows(results);
+  const columns = Object.fromEntries(
+    ROW_COLUMNS.map(column => [column, rows.map(row => row[column])])
+  ) as ColumnarExport['columns'];
+  const payload: ColumnarExport = {
+    schema: 'emoji-tape/prime-mappings',
+    version: RESULTS_EXPORT_VERSION,
+    rowCount: rows.length,
+    columns
+  };
+  return JSON.stringify(payload);
+}
+
+/**
+ * Throws with the path of the first value that does not match
+ */
+type Check = (value: unknown, path: string) => void;
+
+const expect = (path: string, expected: string): never => {
+  throw new Error(`🎯 ${path}: expected ${expected}`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const number: Check = (value, path) => {
+  if (typeof value !== 'number') expect(path, 'a number');
+};
+
+const string: Check = (value, path) => {
+  if (typeof value !== 'string') expect(path, 'a string');
+};
+
+const boolean: Check = (value, path) => {
+  if (typeof value !== 'boolean') expect(path, 'a boolean');
+};
+
+const decimal: Check = (value, path) => {
+  if (typeof value !== 'string' || !/^-?\d+$/.test(value)) expect(path, 'a decimal integer string');
+};
+
+const oneOf = (...allowed: string[]): Check => (value, path) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    expect(path, `one of ${allowed.map(option => `"${option}"`).join(', ')}`);
+  }
+};
+
+const nullable = (check: Check): Check => (value, path) => {
+  if (value !== null) check(value, path);
+};
+
+const arrayOf = (check: Check): Check => (value, path) => {
+  if (!Array.isArray(value)) return expect(path, 'an array');
+  value.forEach((item, index) => check(item, `${path}[${index}]`));
+};
+
+const recordOf = (check: Check): Check => (value, path) => {
+  if (!isObject(value)) return expect(path, 'an object');
+  Object.entries(value).forEach(([key, item]) => check(item, `${path}.${key}`));
+};
+
+const shape = (fields: Record<string, Check>): Check => (value, path) => {
+  if (!isObject(value)) return expect(path, 'an object');
+  Object.entries(fields).forEach(([field, check]) => check(value[field], `${path}.${field}`));
+};
+
+const numbers = arrayOf(number);
+const matrix = arrayOf(numbers);
+
+const primeMapping = shape({ prime: number, emoji: string, activation: number, normalizedActivation: number, rank: number });
+const primeAnchor = shape({ prime: number, emoji: string, text: string, embedding: numbers });
+const emojiAt = { emoji: string, offset: number, segmentIndex: number };
+
+/**
+ * Every field the results views read, so an imported result cannot fail while rendering
+ */
+const samplingResult = shape({
+  timestamp: number,
+  tape: string,
+  alphabet: arrayOf(shape({ emoji: string, prime: number, meaning: string, vibe: string })),
+  tokenization: shape({
+    model: string,
+    tokens: numbers,
+    tokenStrings: arrayOf(string),
+    metadata: shape({ sequenceLength: number, vocabSize: number, unknownTokens: number, byteFallbackTokens: number })
+  }),
+  embeddings: shape({
+    model: string,
+    layers: arrayOf(shape({ layerIndex: number, embedding: numbers, dimension: number, norm: number })),
+    pooledEmbedding: numbers,
+    metadata: shape({
+      totalLayers: number,
+      hiddenSize: number,
+      processingTime: number,
+      device: oneOf('webgpu', 'wasm'),
+      dtype: oneOf('fp32', 'fp16', 'q8'),
+      pooling: oneOf('mean', 'cls', 'last-token'),
+      readout: oneOf('hidden-state', 'logits')
+    })
+  }),
+  primeAnchors: arrayOf(primeAnchor),
+  primeEmojiEmbeddings: arrayOf(primeAnchor),
+  primeMapping: arrayOf(primeMapping),
+  godelEncoding: shape({
+    tapeSegment: string,
+    scheme: oneOf(...Object.keys(GODEL_SCHEMES)),
+    godelNumber: decimal,
+    primeMappings: arrayOf(primeMapping),
+    positional: shape({ godelNumber: decimal, roundTrip: boolean }),
+    hierarchy: shape({ size: number, program: string, cycles: number })
+  }),
+  decoder: nullable(
+    shape({
+      tokenLogProbs: arrayOf(shape({ tokenIndex: number, token: string, logProb: number, surprisal: number })),
+      emojiSurprisal: arrayOf(shape({ ...emojiAt, tokenCount: number, surprisal: number })),
+      meanSurprisal: number,
+      perplexity: number,
+      segmentPerplexity: arrayOf(shape({ segmentIndex: number, tokenCount: number, perplexity: number }))
+    })
+  ),
+  emojiAttribution: arrayOf(shape({ ...emojiAt, tokenCount: number, contributions: recordOf(number) })),
+  // Absent from exports made before per-emoji embeddings were kept
+  emojiEmbeddings: (value, path) => {
+    if (value !== undefined) arrayOf(shape({ ...emojiAt, embedding: numbers }))(value, path);
+  },
+  attention: nullable(
+    shape({
+      model: string,
+      emojis: arrayOf(shape({ ...emojiAt, position: number })),
+      layers: arrayOf(shape({ layerIndex: number, heads: arrayOf(matrix), mean: matrix, crossSegmentShare: number }))
+    })
+  ),
+  universalAnchor: shape({
+    prime2Activation: number,
+    consistencyScore: number,
+    semanticDrift: nullable(number),
+    driftReference: nullable(shape({ kind: oneOf('baseline', 'previous'), model: string, timestamp: number }))
+  })
+});
+
+/**
+ * Check one serialized result has every field the results view reads, naming the first bad path
+ */
+function validateResult(value: unknown, path: string): SerializedSamplingResult {
+  samplingResult(value, path);
+  return value as SerializedSamplingResult;
+}
+
+/**
+ * Parse and validate a JSON export, returning its results with bigints restored.
+ * The comparison is not returned: it is rebuilt from the results.
+ */
+export function importResultsJSON(text: string): { results: LLMSamplingResult[]; exportedAt: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('🎯 File is not valid JSON');
+  }
+
+  const payload = parsed as Partial<ResultsExport> | null;
+  if (typeof payload !== 'object' || payload === null || payload.schema !== RESULTS_EXPORT_SCHEMA) {
+    throw new Error(`🎯 Not a sampling results export (expected schema "${RESULTS_EXPORT_SCHEMA}")`);
+  }
+  if (typeof payload.version !== 'number' || payload.version < 1 || payload.version > RESULTS_EXPORT_VERSION) {
+    throw new Error(`🎯 Unsupported export version ${payload.version}; this build reads up to ${RESULTS_EXPORT_VERSION}`);
+  }
+  if (!Array.isArray(payload.results)) {
+    throw new Error('🎯 results: expected an array');
+  }
+
+  return {
+    results: payload.results.map((result, index) => deserializeResult(validateResult(result, `results[${index}]`))),
+    exportedAt: typeof payload.exportedAt === 'string' ? payload.exportedAt : ''
+  };
+}
+
+/**
+ * Save text as a file through a temporary download link
+ */
+export function downloadText(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
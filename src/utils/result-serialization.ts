@@ -0,0 +1,59 @@
+import type { GodelEncoding, LLMSamplingResult, ModelComparison } from '@/types/llm';
+import type { SerializedGodelEncoding, SerializedSamplingResult } from '@/types/history';
+import type { SerializedModelComparison } from '@/types/export';
+
+/**
+ * Parse a decimal bigint string, rejecting anything else
+ */
+export function parseBigInt(value: string): bigint {
+  if (!/^-?\d+$/.test(value)) {
+    throw new Error(`🔢 Not an integer: ${value}`);
+  }
+  return BigInt(value);
+}
+
+export function serializeGodelEncoding(encoding: GodelEncoding): SerializedGodelEncoding {
+  return {
+    ...encoding,
+    godelNumber: encoding.godelNumber.toString(),
+    positional: { ...encoding.positional, godelNumber: encoding.positional.godelNumber.toString() }
+  };
+}
+
+export function deserializeGodelEncoding(encoding: SerializedGodelEncoding): GodelEncoding {
+  return {
+    ...encoding,
+    godelNumber: parseBigInt(encoding.godelNumber),
+    positional: { ...encoding.positional, godelNumber: parseBigInt(encoding.positional.godelNumber) }
+  };
+}
+
+/**
+ * Sampling result with its Gödel numbers as strings
+ */
+export function serializeResult(result: LLMSamplingResult): SerializedSamplingResult {
+  return { ...result, godelEncoding: serializeGodelEncoding(result.godelEncoding) };
+}
+
+export function deserializeResult(result: SerializedSamplingResult): LLMSamplingResult {
+  return {
+    ...result,
+    // Results stored before per-emoji embeddings were kept have none
+    emojiEmbeddings: result.emojiEmbeddings ?? [],
+    godelEncoding: deserializeGodelEncoding(result.godelEncoding)
+  };
+}
+
+/**
+ * Stable identity of a result: one model sampled at one moment
+ */
+export function resultKey(result: Pick<LLMSamplingResult, 'timestamp' | 'tokenization'>): string {
+  return `${result.tokenization.model}|${result.timestamp}`;
+}
+
+/**
+ * Comparison with its results replaced by their keys
+ */
+export function serializeComparison({ results, ...comparison }: ModelComparison): SerializedModelComparison {
+  return { ...comparison, resultIds: results.map(resultKey) };
+}
@@ -0,0 +1,36 @@
+import type { ModelId, ModelRuntime } from '@/types/llm';
+
+type RuntimeChoices = Partial<Record<ModelId, Partial<ModelRuntime>>>;
+type Listener = (runtimes: RuntimeChoices) => void;
+
+/**
+ * The runtime picked for each model. Every view that loads a model reads it
+ * from here, so none of them reloads the model on another device or dtype.
+ */
+export class RuntimePreferences {
+  private runtimes: RuntimeChoices = {};
+  private listeners = new Set<Listener>();
+
+  all(): RuntimeChoices {
+    return this.runtimes;
+  }
+
+  get(id: ModelId): Partial<ModelRuntime> | undefined {
+    return this.runtimes[id];
+  }
+
+  set(id: ModelId, runtime: Partial<ModelRuntime>): void {
+    this.runtimes = { ...this.runtimes, [id]: runtime };
+    this.listeners.forEach(listener => listener(this.runtimes));
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Export singleton instance
+export const runtimePreferences = new RuntimePreferences();
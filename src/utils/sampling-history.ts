@@ -0,0 +1,138 @@
+import type { LLMSamplingResult } from '@/types/llm';
+import type { HistoryFilter, HistoryRecord } from '@/types/history';
+import { deserializeResult, resultKey, serializeResult } from '@/utils/result-serialization';
+
+const DB_NAME = 'emoji-tape';
+const DB_VERSION = 1;
+const STORE_NAME = 'sampling-history';
+
+type Listener = () => void;
+
+/**
+ * Promise for a single IndexedDB request
+ */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Every sampling result, kept in IndexedDB across reloads. Gödel numbers are
+ * stored as decimal strings so the records survive any serializer.
+ */
+export class SamplingHistoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private listeners = new Set<Listener>();
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async add(result: LLMSamplingResult): Promise<HistoryRecord> {
+    const record: HistoryRecord = {
+      id: resultKey(result),
+      model: result.tokenization.model,
+      tape: result.tape,
+      device: result.embeddings.metadata.device,
+      dtype: result.embeddings.metadata.dtype,
+      timestamp: result.timestamp,
+      result: serializeResult(result)
+    };
+    await this.write(store => store.put(record));
+    return record;
+  }
+
+  /**
+   * Records matching the filter, newest first
+   */
+  async list(filter: HistoryFilter = {}): Promise<HistoryRecord[]> {
+    const db = await this.open();
+    const range =
+      filter.from !== undefined || filter.to !== undefined
+        ? IDBKeyRange.bound(filter.from ?? 0, filter.to ?? Number.MAX_SAFE_INTEGER)
+        : undefined;
+    const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('timestamp');
+    const records = await requestResult(index.getAll(range) as IDBRequest<HistoryRecord[]>);
+
+    return records
+      .filter(record => !filter.model || record.model === filter.model)
+      .filter(record => !filter.tape || record.tape.includes(filter.tape))
+      .reverse();
+  }
+
+  /**
+   * Models with at least one stored result
+   */
+  async models(): Promise<string[]> {
+    const db = await this.open();
+    const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('model');
+    const models: string[] = [];
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openKeyCursor(null, 'nextunique');
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        models.push(String(cursor.key));
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    return models;
+  }
+
+  async load(id: string): Promise<LLMSamplingResult | null> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const record = await requestResult(store.get(id) as IDBRequest<HistoryRecord | undefined>);
+    return record ? deserializeResult(record.result) : null;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.write(store => store.delete(id));
+  }
+
+  async clear(): Promise<void> {
+    await this.write(store => store.clear());
+  }
+
+  private async write(operation: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    operation(transaction.objectStore(STORE_NAME));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    this.listeners.forEach(listener => listener());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+      return Promise.reject(new Error('🔢 IndexedDB is not available in this browser'));
+    }
+
+    this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('model', 'model');
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.db = null;
+        reject(request.error);
+      };
+    });
+    return this.db;
+  }
+}
+
+// Export singleton instance
+export const samplingHistory = new SamplingHistoryStore();
@@ -0,0 +1,183 @@
+import {
+  EMOJI_BLOCK_TAPE,
+  type LLMSamplingResult,
+  type SamplingConfig,
+  type SamplingJob,
+  type SamplingOptions,
+  type ModelId
+} from '@/types/llm';
+
+export type SamplingRunner = (
+  model: ModelId,
+  tape: string,
+  options: SamplingOptions
+) => Promise<LLMSamplingResult>;
+
+export interface SamplingQueueOptions {
+  /** Attempts per job before it is marked failed, including the first */
+  maxAttempts?: number;
+  onJobSettled?: (job: SamplingJob) => void;
+}
+
+type Listener = (jobs: SamplingJob[]) => void;
+
+let jobCount = 0;
+
+function genJobId(): string {
+  jobCount = (jobCount + 1) % Number.MAX_SAFE_INTEGER;
+  return `job-${jobCount}`;
+}
+
+/**
+ * Runs sampling jobs one at a time, in order. Each job reports progress from
+ * the sampler's own phases, retries on failure and can be cancelled, which
+ * aborts the in-flight model load.
+ */
+export class SamplingQueue {
+  private jobs: SamplingJob[] = [];
+  private listeners = new Set<Listener>();
+  private controllers = new Map<string, AbortController>();
+  private running = false;
+  private readonly maxAttempts: number;
+
+  constructor(private readonly runner: SamplingRunner, private readonly options: SamplingQueueOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 2;
+  }
+
+  getJobs(): SamplingJob[] {
+    return this.jobs;
+  }
+
+  get isBusy(): boolean {
+    return this.running;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  enqueue(model: ModelId, tape: string = EMOJI_BLOCK_TAPE, config: SamplingConfig = {}): string {
+    const job: SamplingJob = {
+      id: genJobId(),
+      model,
+      tape,
+      config,
+      status: 'queued',
+      progress: null,
+      attempts: 0,
+      error: null,
+      result: null,
+      createdAt: Date.now()
+    };
+    this.jobs = [...this.jobs, job];
+    this.emit();
+    void this.drain();
+    return job.id;
+  }
+
+  /**
+   * Cancel a queued job, or abort the one that is running
+   */
+  cancel(jobId: string): void {
+    const job = this.find(jobId);
+    if (!job) return;
+
+    if (job.status === 'queued') {
+      this.update(jobId, { status: 'cancelled' });
+    } else if (job.status === 'running') {
+      this.controllers.get(jobId)?.abort(new DOMException('Sampling cancelled', 'AbortError'));
+    }
+  }
+
+  cancelAll(): void {
+    this.jobs.forEach(job => this.cancel(job.id));
+  }
+
+  /**
+   * Put a failed or cancelled job back in the queue with a fresh attempt budget
+   */
+  retry(jobId: string): void {
+    const job = this.find(jobId);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+
+    this.update(jobId, { status: 'queued', attempts: 0, error: null, progress: null });
+    void this.drain();
+  }
+
+  /**
+   * Drop every job that has finished, one way or another
+   */
+  clearSettled(): void {
+    this.jobs = this.jobs.filter(job => job.status === 'queued' || job.status === 'running');
+    this.emit();
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      let next = this.jobs.find(job => job.status === 'queued');
+      while (next) {
+        await this.runJob(next.id);
+        next = this.jobs.find(job => job.status === 'queued');
+      }
+    } finally {
+      this.running = false;
+      this.emit();
+    }
+  }
+
+  private async runJob(jobId: string): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(jobId, controller);
+
+    try {
+      while (true) {
+        const job = this.find(jobId);
+        this.update(jobId, { status: 'running', attempts: job.attempts + 1, error: null });
+
+        try {
+          const result = await this.runner(job.model, job.tape, {
+            ...job.config,
+            signal: controller.signal,
+            onProgress: progress => this.update(jobId, { progress })
+          });
+          this.update(jobId, { status: 'succeeded', result });
+          break;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          if (controller.signal.aborted) {
+            this.update(jobId, { status: 'cancelled', error: message });
+            break;
+          }
+          if (this.find(jobId).attempts >= this.maxAttempts) {
+            this.update(jobId, { status: 'failed', error: message });
+            break;
+          }
+          console.warn(`🎲 Sampling ${job.model} failed, retrying:`, error);
+        }
+      }
+    } finally {
+      this.controllers.delete(jobId);
+    }
+
+    this.options.onJobSettled?.(this.find(jobId));
+  }
+
+  private find(jobId: string): SamplingJob | undefined {
+    return this.jobs.find(job => job.id === jobId);
+  }
+
+  private update(jobId: string, changes: Partial<SamplingJob>): void {
+    this.jobs = this.jobs.map(job => (job.id === jobId ? { ...job, ...changes } : job));
+    this.emit();
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener(this.jobs));
+  }
+}
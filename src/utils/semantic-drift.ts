@@ -0,0 +1,103 @@
+import { type LLMSamplingResult } from '@/types/llm';
+import { pearsonCorrelation } from '@/utils/representational-similarity';
+import { cosineSimilarity } from '@/utils/vector-math';
+
+const ANCHOR_PRIME = 2; // 🎩 Creativity
+
+/**
+ * The tracked anchor as the result's alphabet defines it, with this sample's
+ * embedding of it: the mean over its occurrences on the tape
+ */
+function anchorEmbedding(result: LLMSamplingResult): { emoji: string; meaning: string; embedding: number[] } | null {
+  const entry = result.alphabet.find(p => p.prime === ANCHOR_PRIME);
+  if (!entry) return null;
+  const occurrences = result.emojiEmbeddings.filter(e => e.emoji === entry.emoji);
+  if (occurrences.length === 0) return null;
+
+  const embedding = new Array<number>(occurrences[0].embedding.length).fill(0);
+  for (const occurrence of occurrences) {
+    occurrence.embedding.forEach((value, dim) => {
+      embedding[dim] += value / occurrences.length;
+    });
+  }
+  return { emoji: entry.emoji, meaning: entry.meaning, embedding };
+}
+
+/**
+ * Cosine of the anchor to every other emoji on the tape, keyed by tape offset.
+ * Relational, so it can be compared between models with different embedding spaces.
+ */
+function anchorRelations(result: LLMSamplingResult, anchor: number[], emoji: string): Map<number, number> {
+  return new Map(
+    result.emojiEmbeddings
+      .filter(e => e.emoji !== emoji)
+      .map(e => [e.offset, cosineSimilarity(anchor, e.embedding)])
+  );
+}
+
+/**
+ * Semantic drift of the 🎩 anchor between a result and its reference, in [0, 1].
+ * Against the same model: (1 − cosine of the anchor's embeddings) / 2. Against a
+ * baseline model, whose space differs: (1 − Pearson r of the anchor's cosines to
+ * the tape's other emojis) / 2. 0 means 🎩 reads exactly as before.
+ * Null when not comparable: the anchor's emoji or meaning changed, or either
+ * sample lacks it on the tape.
+ */
+export function computeSemanticDrift(result: LLMSamplingResult, reference: LLMSamplingResult): number | null {
+  const anchor = anchorEmbedding(result);
+  const referenceAnchor = anchorEmbedding(reference);
+  if (
+    !anchor ||
+    !referenceAnchor ||
+    anchor.emoji !== referenceAnchor.emoji ||
+    anchor.meaning !== referenceAnchor.meaning
+  ) {
+    return null;
+  }
+
+  if (result.tokenization.model === reference.tokenization.model) {
+    if (anchor.embedding.length !== referenceAnchor.embedding.length) return null;
+    return (1 - cosineSimilarity(anchor.embedding, referenceAnchor.embedding)) / 2;
+  }
+
+  const relations = anchorRelations(result, anchor.embedding, anchor.emoji);
+  const referenceRelations = anchorRelations(reference, referenceAnchor.embedding, referenceAnchor.emoji);
+  const shared = Array.from(relations.keys()).filter(offset => referenceRelations.has(offset));
+  if (shared.length < 2) return null;
+  return (
+    (1 -
+      pearsonCorrelation(
+        shared.map(offset => relations.get(offset) ?? 0),
+        shared.map(offset => referenceRelations.get(offset) ?? 0)
+      )) /
+    2
+  );
+}
+
+/**
+ * Model whose samples a result's drift is measured against
+ */
+export function driftReferenceModel(result: LLMSamplingResult, baselineModel: string | null): string {
+  const model = result.tokenization.model;
+  return baselineModel && baselineModel !== model ? baselineModel : model;
+}
+
+/**
+ * Reference to measure drift against: the latest sample of the baseline model
+ * on the same tape, or else the previous sample of the same model and tape
+ */
+export function findDriftReference(
+  result: LLMSamplingResult,
+  history: LLMSamplingResult[],
+  baselineModel: string | null
+): LLMSamplingResult | null {
+  const referenceModel = driftReferenceModel(result, baselineModel);
+
+  return history
+    .filter(r => r !== result && r.tape === result.tape && r.tokenization.model === referenceModel)
+    .filter(r => r.timestamp < result.timestamp)
+    .reduce<LLMSamplingResult | null>(
+      (latest, r) => (!latest || r.timestamp > latest.timestamp ? r : latest),
+      null
+    );
+}
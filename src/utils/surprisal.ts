@@ -0,0 +1,103 @@
+import type { EmojiSurprisal, SegmentPerplexity, TapeGrapheme, TokenLogProb } from '@/types/llm';
+
+const LOG2 = Math.log(2);
+
+/**
+ * Log-softmax of one row of logits, evaluated at a single index
+ */
+export function logSoftmaxAt(logits: ArrayLike<number>, start: number, length: number, index: number): number {
+  let max = -Infinity;
+  for (let i = 0; i < length; i++) {
+    max = Math.max(max, logits[start + i]);
+  }
+  let sumExp = 0;
+  for (let i = 0; i < length; i++) {
+    sumExp += Math.exp(logits[start + i] - max);
+  }
+  return logits[start + index] - max - Math.log(sumExp);
+}
+
+/**
+ * Next-token log-probabilities from [1, sequence, vocab] logits. `inputIds`
+ * starts with a BOS token, so position i predicts token i + 1 and every
+ * tape token gets a score.
+ */
+export function tokenLogProbs(
+  logits: ArrayLike<number>,
+  vocabSize: number,
+  inputIds: number[],
+  tokenStrings: string[]
+): TokenLogProb[] {
+  return inputIds.slice(1).map((id, tokenIndex) => {
+    const logProb = logSoftmaxAt(logits, tokenIndex * vocabSize, vocabSize, id);
+    return { tokenIndex, token: tokenStrings[tokenIndex], logProb, surprisal: -logProb / LOG2 };
+  });
+}
+
+/**
+ * Sum token surprisal per emoji. Tokens are placed by decoding ever longer
+ * prefixes: a token belongs to the grapheme holding the last character it
+ * completes. Byte pieces that finish no character wait for the token that does.
+ */
+export function emojiSurprisal(
+  tokens: TokenLogProb[],
+  graphemes: TapeGrapheme[],
+  decodePrefix: (tokenCount: number) => string
+): EmojiSurprisal[] {
+  const totals = new Map<number, { surprisal: number; tokenCount: number }>();
+  let pending: TokenLogProb[] = [];
+  let decodedLength = 0;
+
+  tokens.forEach((token, index) => {
+    pending.push(token);
+    const prefix = decodePrefix(index + 1).replace(/�+$/, '');
+    if (prefix.length <= decodedLength) return;
+    decodedLength = prefix.length;
+
+    const grapheme = [...graphemes].reverse().find(g => g.offset < decodedLength);
+    if (grapheme && decodedLength <= grapheme.offset + grapheme.emoji.length) {
+      const total = totals.get(grapheme.offset) ?? { surprisal: 0, tokenCount: 0 };
+      pending.forEach(t => {
+        total.surprisal += t.surprisal;
+        total.tokenCount++;
+      });
+      totals.set(grapheme.offset, total);
+    }
+    pending = [];
+  });
+
+  return graphemes.map(grapheme => ({
+    emoji: grapheme.emoji,
+    offset: grapheme.offset,
+    segmentIndex: grapheme.segmentIndex,
+    ...(totals.get(grapheme.offset) ?? { surprisal: 0, tokenCount: 0 })
+  }));
+}
+
+/**
+ * Per-token perplexity from surprisal in bits: 2^(mean bits)
+ */
+export function perplexityFromBits(totalBits: number, tokenCount: number): number {
+  return tokenCount > 0 ? 2 ** (totalBits / tokenCount) : 1;
+}
+
+/**
+ * Perplexity of each tape segment over the tokens attributed to its emojis
+ */
+export function segmentPerplexity(emojis: EmojiSurprisal[]): SegmentPerplexity[] {
+  const segments = new Map<number, { bits: number; tokenCount: number }>();
+  for (const emoji of emojis) {
+    const segment = segments.get(emoji.segmentIndex) ?? { bits: 0, tokenCount: 0 };
+    segment.bits += emoji.surprisal;
+    segment.tokenCount += emoji.tokenCount;
+    segments.set(emoji.segmentIndex, segment);
+  }
+
+  return Array.from(segments.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([segmentIndex, { bits, tokenCount }]) => ({
+      segmentIndex,
+      tokenCount,
+      perplexity: perplexityFromBits(bits, tokenCount)
+    }));
+}
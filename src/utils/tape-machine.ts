@@ -0,0 +1,354 @@
+import { INTRINSIC_PRIMES, type EmojiPrimeMapping } from '@/types/llm';
+import {
+  type TapeInstruction,
+  type TapeMachineErrorCode,
+  type TapeMachineFault,
+  type TapeMachineState,
+  type TapeOpcode,
+  type TapeTraceEntry
+} from '@/types/tape-machine';
+import { parseTape } from '@/utils/tape-parser';
+import { primeSequence } from '@/utils/godel';
+
+export const MEMORY_SIZE = 8;
+export const DEFAULT_MAX_STEPS = 1000;
+export const DEFAULT_MAX_CALL_DEPTH = 16;
+
+/**
+ * Opcode carried by each intrinsic prime. Semantics:
+ *
+ * 🪐 PHASE    cycles += 1; push the current segment index
+ * 🎩 INIT     acc ← 0; push 1 (the seed value)
+ * 🔢 SWAP_MEM pop v; push memory[ptr]; memory[ptr] ← v; ptr advances
+ * 🎲 CALL     pop v; if v ≠ 0 call segment (v mod segments), returning at its end
+ * 🎶 ADD      pop v; acc ← acc + v; push acc
+ * 🎷 OUTPUT   append acc to the output
+ * 📜 SELF     push the address of this instruction
+ * 🧬 EVOLVE   pop v; push oracle(v) (v + 1 unless a host oracle is supplied)
+ * 🎯 COMPARE  pop v; flag ← (v = acc); push 1 if flag else 0
+ * 🚀 DEPLOY   halt the machine
+ *
+ * Primes that custom alphabets add after 29 reuse these opcodes in turn: the
+ * n-th prime acts as the (n mod 10)-th intrinsic one, so 31 is INIT, 37 CALL.
+ */
+export const PRIME_OPCODES: Record<number, TapeOpcode> = {
+  2: 'INIT',
+  3: 'CALL',
+  5: 'SWAP_MEM',
+  7: 'ADD',
+  11: 'OUTPUT',
+  13: 'SELF',
+  17: 'EVOLVE',
+  19: 'COMPARE',
+  23: 'DEPLOY',
+  29: 'PHASE'
+};
+
+/**
+ * Opcode for any prime, cycling through the intrinsic ones past 29
+ */
+export function primeOpcode(prime: number): TapeOpcode | undefined {
+  if (PRIME_OPCODES[prime]) return PRIME_OPCODES[prime];
+  let index = 0;
+  for (const candidate of primeSequence()) {
+    if (candidate > prime) return undefined;
+    if (candidate === prime) return PRIME_OPCODES[INTRINSIC_PRIMES[index % INTRINSIC_PRIMES.length].prime];
+    index++;
+  }
+}
+
+export class TapeMachineError extends Error {
+  constructor(
+    public readonly code: TapeMachineErrorCode,
+    message: string,
+    public readonly address: number | null = null
+  ) {
+    super(message);
+    this.name = 'TapeMachineError';
+  }
+}
+
+export interface TapeMachineOptions {
+  maxSteps?: number;
+  maxCallDepth?: number;
+  /** Host hook behind 🧬 EVOLVE, e.g. a model query; must be deterministic for reproducible traces */
+  oracle?: (value: number) => number;
+  /** Emoji→prime pairs the tape is written in; defaults to the intrinsic primes */
+  alphabet?: EmojiPrimeMapping[];
+}
+
+interface CompiledProgram {
+  instructions: TapeInstruction[];
+  segmentStarts: number[];
+  segmentEnds: number[]; // Exclusive end address of each segment
+  fault: TapeMachineFault | null;
+}
+
+/**
+ * Turn a tape into addressed instructions, flagging the first symbol with no opcode
+ */
+export function compileTape(tape: string, alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES): CompiledProgram {
+  const primeMap = new Map(alphabet.map(p => [p.emoji, p.prime]));
+  const instructions: TapeInstruction[] = [];
+  const segmentStarts: number[] = [];
+  const segmentEnds: number[] = [];
+  let fault: TapeMachineFault | null = null;
+
+  for (const segment of parseTape(tape)) {
+    segmentStarts.push(instructions.length);
+    for (const grapheme of segment.graphemes) {
+      const prime = primeMap.get(grapheme.emoji);
+      const opcode = prime === undefined ? undefined : primeOpcode(prime);
+      if (opcode === undefined) {
+        fault ??= {
+          code: 'UNKNOWN_OPCODE',
+          message: `🎲 Unknown opcode ${grapheme.emoji} at segment ${segment.index + 1}, position ${grapheme.position + 1}`,
+          address: instructions.length
+        };
+        continue;
+      }
+      instructions.push({
+        address: instructions.length,
+        emoji: grapheme.emoji,
+        prime,
+        opcode,
+        segmentIndex: grapheme.segmentIndex,
+        position: grapheme.position,
+        offset: grapheme.offset
+      });
+    }
+    segmentEnds.push(instructions.length);
+  }
+
+  return { instructions, segmentStarts, segmentEnds, fault };
+}
+
+function initialState(program: CompiledProgram): TapeMachineState {
+  return {
+    pc: 0,
+    stack: [],
+    registers: { acc: 0, ptr: 0, flag: false },
+    memory: new Array<number>(MEMORY_SIZE).fill(0),
+    callStack: [],
+    output: [],
+    cycles: 0,
+    steps: 0,
+    halted: program.fault !== null || program.instructions.length === 0,
+    error: program.fault
+  };
+}
+
+function cloneState(state: TapeMachineState): TapeMachineState {
+  return {
+    ...state,
+    stack: [...state.stack],
+    registers: { ...state.registers },
+    memory: [...state.memory],
+    callStack: [...state.callStack],
+    output: [...state.output]
+  };
+}
+
+/**
+ * Stack/register VM that executes an emoji tape segment by segment
+ */
+export class TapeMachine {
+  readonly program: CompiledProgram;
+  private readonly maxSteps: number;
+  private readonly maxCallDepth: number;
+  private readonly oracle: (value: number) => number;
+  private current: TapeMachineState;
+  private history: TapeTraceEntry[] = [];
+
+  constructor(readonly tape: string, options: TapeMachineOptions = {}) {
+    this.program = compileTape(tape, options.alphabet);
+    this.maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+    this.maxCallDepth = options.maxCallDepth ?? DEFAULT_MAX_CALL_DEPTH;
+    this.oracle = options.oracle ?? (value => value + 1);
+    this.current = initialState(this.program);
+  }
+
+  get state(): TapeMachineState {
+    return cloneState(this.current);
+  }
+
+  get trace(): TapeTraceEntry[] {
+    return [...this.history];
+  }
+
+  /**
+   * Instruction the machine will execute next, or null once halted
+   */
+  get nextInstruction(): TapeInstruction | null {
+    return this.current.halted ? null : this.program.instructions[this.current.pc] ?? null;
+  }
+
+  /**
+   * Restore the machine to its initial state and clear the trace
+   */
+  reset(): void {
+    this.current = initialState(this.program);
+    this.history = [];
+  }
+
+  /**
+   * Execute one instruction. Faults halt the machine and are recorded on the
+   * state rather than thrown. Returns null if the machine had already halted.
+   */
+  step(): TapeTraceEntry | null {
+    const instruction = this.nextInstruction;
+    if (!instruction) return null;
+
+    const next = cloneState(this.current);
+    try {
+      if (next.steps >= this.maxSteps) {
+        throw new TapeMachineError(
+          'STEP_LIMIT_EXCEEDED',
+          `🪐 Step limit of ${this.maxSteps} reached without halting`,
+          instruction.address
+        );
+      }
+      this.execute(instruction, next);
+    } catch (error) {
+      if (!(error instanceof TapeMachineError)) throw error;
+      next.error = { code: error.code, message: error.message, address: error.address };
+      next.halted = true;
+    }
+    next.steps++;
+
+    this.current = next;
+    const entry: TapeTraceEntry = { step: next.steps, instruction, state: cloneState(next) };
+    this.history.push(entry);
+    return entry;
+  }
+
+  /**
+   * Undo the most recent step. Returns false if there is nothing to undo.
+   */
+  stepBack(): boolean {
+    if (this.history.length === 0) return false;
+    this.history.pop();
+    const previous = this.history[this.history.length - 1];
+    this.current = previous ? cloneState(previous.state) : initialState(this.program);
+    return true;
+  }
+
+  /**
+   * Step until the machine halts, returning the final state
+   */
+  run(): TapeMachineState {
+    while (this.step()) {
+      // Each step appends to the trace
+    }
+    return this.state;
+  }
+
+  /**
+   * Step until the next instruction sits on a breakpoint address or the machine halts.
+   * Always executes at least one step so a run can leave the current breakpoint.
+   */
+  runToBreakpoint(breakpoints: ReadonlySet<number>): TapeMachineState {
+    while (this.step()) {
+      const upcoming = this.nextInstruction;
+      if (upcoming && breakpoints.has(upcoming.address)) break;
+    }
+    return this.state;
+  }
+
+  private execute(instruction: TapeInstruction, state: TapeMachineState): void {
+    const pop = (): number => {
+      if (state.stack.length === 0) {
+        throw new TapeMachineError(
+          'STACK_UNDERFLOW',
+          `🎯 ${instruction.emoji} ${instruction.opcode} needs a value but the stack is empty`,
+          instruction.address
+        );
+      }
+      return state.stack.pop();
+    };
+
+    let jumpTo: number | null = null;
+
+    switch (instruction.opcode) {
+      case 'PHASE':
+        state.cycles++;
+        state.stack.push(instruction.segmentIndex);
+        break;
+      case 'INIT':
+        state.registers.acc = 0;
+        state.stack.push(1);
+        break;
+      case 'SWAP_MEM': {
+        const value = pop();
+        state.stack.push(state.memory[state.registers.ptr]);
+        state.memory[state.registers.ptr] = value;
+        state.registers.ptr = (state.registers.ptr + 1) % MEMORY_SIZE;
+        break;
+      }
+      case 'CALL': {
+        const value = pop();
+        if (value !== 0) {
+          if (state.callStack.length >= this.maxCallDepth) {
+            throw new TapeMachineError(
+              'CALL_DEPTH_EXCEEDED',
+              `🎲 Call depth limit of ${this.maxCallDepth} exceeded`,
+              instruction.address
+            );
+          }
+          const segmentCount = this.program.segmentStarts.length;
+          const target = ((value % segmentCount) + segmentCount) % segmentCount;
+          // Calling an empty segment returns immediately
+          if (this.program.segmentStarts[target] < this.program.segmentEnds[target]) {
+            state.callStack.push(instruction.address + 1);
+            jumpTo = this.program.segmentStarts[target];
+          }
+        }
+        break;
+      }
+      case 'ADD':
+        state.registers.acc += pop();
+        state.stack.push(state.registers.acc);
+        break;
+      case 'OUTPUT':
+        state.output.push(state.registers.acc);
+        break;
+      case 'SELF':
+        state.stack.push(instruction.address);
+        break;
+      case 'EVOLVE':
+        state.stack.push(this.oracle(pop()));
+        break;
+      case 'COMPARE':
+        state.registers.flag = pop() === state.registers.acc;
+        state.stack.push(state.registers.flag ? 1 : 0);
+        break;
+      case 'DEPLOY':
+        state.halted = true;
+        return;
+    }
+
+    state.pc = jumpTo ?? this.advance(instruction, state);
+    if (state.pc >= this.program.instructions.length) {
+      state.halted = true;
+    }
+  }
+
+  /**
+   * Address after a non-jumping instruction: the end of a called segment returns to its caller
+   */
+  private advance(instruction: TapeInstruction, state: TapeMachineState): number {
+    const next = instruction.address + 1;
+    const segmentEnd = this.program.segmentEnds[instruction.segmentIndex];
+    if (next >= segmentEnd && state.callStack.length > 0) {
+      return state.callStack.pop();
+    }
+    return next;
+  }
+}
+
+/**
+ * Run a tape to completion and return the final machine state
+ */
+export function executeTape(tape: string, options?: TapeMachineOptions): TapeMachineState {
+  return new TapeMachine(tape, options).run();
+}
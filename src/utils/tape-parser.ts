@@ -0,0 +1,72 @@
+import {
+  INTRINSIC_PRIMES,
+  type EmojiPrimeMapping,
+  type TapeGrapheme,
+  type TapeSegment,
+  type TapeValidation
+} from '@/types/llm';
+
+export const SEGMENT_SEPARATOR = '|';
+
+const segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+  : null;
+
+/**
+ * Split text into grapheme clusters so ZWJ sequences, skin tones and
+ * variation selectors (🧑‍🚀, ❤️) stay a single emoji
+ */
+export function splitGraphemes(text: string): string[] {
+  if (!segmenter) {
+    // Code point split is the best we can do without Intl.Segmenter
+    return Array.from(text);
+  }
+  return Array.from(segmenter.segment(text), part => part.segment);
+}
+
+/**
+ * Parse a tape into its `|`-separated segments of grapheme clusters
+ */
+export function parseTape(tape: string): TapeSegment[] {
+  const segments: TapeSegment[] = [];
+  let current: TapeSegment = { index: 0, offset: 0, text: '', graphemes: [] };
+  let offset = 0;
+
+  for (const grapheme of splitGraphemes(tape)) {
+    if (grapheme === SEGMENT_SEPARATOR) {
+      segments.push(current);
+      current = { index: segments.length, offset: offset + grapheme.length, text: '', graphemes: [] };
+    } else {
+      current.graphemes.push({
+        emoji: grapheme,
+        segmentIndex: current.index,
+        position: current.graphemes.length,
+        offset
+      });
+      current.text += grapheme;
+    }
+    offset += grapheme.length;
+  }
+  segments.push(current);
+
+  return segments;
+}
+
+/**
+ * All graphemes on the tape in order, with segment separators removed
+ */
+export function tapeGraphemes(tape: string): TapeGrapheme[] {
+  return parseTape(tape).flatMap(segment => segment.graphemes);
+}
+
+/**
+ * Flag emojis outside the alphabet and segments with nothing in them
+ */
+export function validateTape(tape: string, alphabet: EmojiPrimeMapping[] = INTRINSIC_PRIMES): TapeValidation {
+  const known = new Set(alphabet.map(p => p.emoji));
+  const segments = parseTape(tape);
+  const unknown = segments.flatMap(segment => segment.graphemes).filter(g => !known.has(g.emoji));
+  const emptySegments = segments.filter(segment => segment.graphemes.length === 0).map(segment => segment.index);
+
+  return { unknown, emptySegments, valid: unknown.length === 0 && emptySegments.length === 0 };
+}
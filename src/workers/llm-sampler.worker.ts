@@ -0,0 +1,123 @@
+/// <reference lib="webworker" />
+import { EMOJI_BLOCK_TAPE, type ModelId, type SamplingProgress } from '@/types/llm';
+import type {
+  SamplerRequest,
+  SamplerRequestMap,
+  SamplerWorkerInbound,
+  SamplerWorkerOutbound
+} from '@/types/sampler-worker';
+import { LLMEmojiSampler } from '@/utils/llm-sampler';
+import { detectDeviceSupport } from '@/utils/device';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+const sampler = new LLMEmojiSampler();
+const controllers = new Map<number, AbortController>();
+const modelQueues = new Map<ModelId, Promise<void>>(); // Settles when the model's last queued request does
+
+function post(message: SamplerWorkerOutbound): void {
+  self.postMessage(message);
+}
+
+/**
+ * Dispatch a request to the sampler. Only loading and sampling take the
+ * signal; the remaining calls are short once the model is loaded.
+ */
+async function handle(
+  request: SamplerRequest,
+  signal: AbortSignal
+): Promise<SamplerRequestMap[SamplerRequest['type']]['result']> {
+  const onProgress = (progress: SamplingProgress) =>
+    post({ type: 'progress', id: request.id, progress });
+
+  switch (request.type) {
+    case 'init':
+      return sampler.initializeModel(request.args[0], { ...request.args[1], signal, onProgress });
+    case 'release':
+      return sampler.releaseModel(request.args[0]);
+    case 'tokenize':
+      return sampler.tokenizeTape(request.args[0], request.args[1] ?? EMOJI_BLOCK_TAPE);
+    case 'embed':
+      return sampler.embedTape(request.args[0], request.args[1] ?? EMOJI_BLOCK_TAPE, request.args[2]);
+    case 'embedTokens':
+      return sampler.embedTokens(request.args[0], request.args[1] ?? EMOJI_BLOCK_TAPE, request.args[2]);
+    case 'attention':
+      return sampler.extractAttention(request.args[0], request.args[1] ?? EMOJI_BLOCK_TAPE);
+    case 'score':
+      return sampler.scoreTape(request.args[0], request.args[1] ?? EMOJI_BLOCK_TAPE);
+    case 'predict':
+      return sampler.predictNextEmoji(request.args[0], request.args[1], request.args[2], request.args[3]);
+    case 'primeAnchors':
+      return sampler.getPrimeAnchors(request.args[0], request.args[1], request.args[2]);
+    case 'primeEmojiEmbeddings':
+      return sampler.getPrimeEmojiEmbeddings(request.args[0], request.args[1], request.args[2]);
+    case 'sample':
+      return sampler.sampleTape(request.args[0], request.args[1] ?? EMOJI_BLOCK_TAPE, {
+        ...request.args[2],
+        signal,
+        onProgress
+      });
+    case 'setDriftBaseline':
+      return sampler.setDriftBaseline(request.args[0]);
+    case 'deviceSupport':
+      return detectDeviceSupport();
+  }
+}
+
+/**
+ * Models a request loads, reads or disposes. Requests on the same model run
+ * one at a time, so a load or release can never land in the middle of a job.
+ */
+function requestModels(request: SamplerRequest): ModelId[] {
+  switch (request.type) {
+    case 'setDriftBaseline':
+    case 'deviceSupport':
+      return [];
+    default:
+      return [request.args[0]];
+  }
+}
+
+/**
+ * Run after every earlier request on the same models has settled
+ */
+function enqueue<T>(models: ModelId[], run: () => Promise<T>): Promise<T> {
+  const job = Promise.all(models.map(model => modelQueues.get(model))).then(run);
+  const settled = job.then(
+    () => undefined,
+    () => undefined
+  );
+  models.forEach(model => modelQueues.set(model, settled));
+  void settled.then(() =>
+    models.forEach(model => {
+      if (modelQueues.get(model) === settled) modelQueues.delete(model);
+    })
+  );
+  return job;
+}
+
+self.onmessage = async (event: MessageEvent<SamplerWorkerInbound>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    controllers.get(message.id)?.abort(new DOMException('Sampling cancelled', 'AbortError'));
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(message.id, controller);
+
+  try {
+    const result = await enqueue(requestModels(message), () => {
+      // Cancelled while waiting its turn
+      controller.signal.throwIfAborted();
+      return handle(message, controller.signal);
+    });
+    post({ type: 'result', id: message.id, result });
+  } catch (error) {
+    const { name, message: text } = error instanceof Error ? error : new Error(String(error));
+    post({ type: 'error', id: message.id, error: { name, message: text } });
+  } finally {
+    controllers.delete(message.id);
+  }
+};
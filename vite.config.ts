@@ -14,6 +14,11 @@ export default defineConfig(({ mode }) => ({
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),
+  worker: {
+    // The sampler worker imports transformers.js, which code-splits; the default
+    // IIFE worker output is a single file and cannot, so workers are built as ES modules
+    format: "es",
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),